@@ -0,0 +1,196 @@
+import { assert } from "console";
+import { RemoteInfo } from "dgram";
+import { createWriteStream, promises, WriteStream } from "fs";
+import EventEmitter = require("events");
+import * as nw from "./network";
+import { TCNetClient, TCNetSocketType } from "./tcnet";
+
+/**
+ * Single datagram of a capture
+ */
+export type TCNetCaptureFrame = {
+    time: number;
+    socket: TCNetSocketType;
+    address: string;
+    port: number;
+    messageType: nw.TCNetMessageType;
+    data: Buffer;
+};
+
+/**
+ * Records all datagrams received by a client to a file
+ *
+ * The file contains one JSON object per line, the datagram is stored base64 encoded.
+ */
+export class TCNetRecorder {
+    private client: TCNetClient;
+    private path: string;
+    private stream: WriteStream | null = null;
+    private listener: (socket: TCNetSocketType, msg: Buffer, rinfo: RemoteInfo) => void;
+
+    /**
+     *
+     * @param client client to record
+     * @param path file to record to
+     */
+    constructor(client: TCNetClient, path: string) {
+        this.client = client;
+        this.path = path;
+        this.listener = this.record.bind(this);
+    }
+
+    /**
+     * Starts recording, an existing file is overwritten
+     */
+    start(): void {
+        this.stream = createWriteStream(this.path);
+        this.client.on("datagram", this.listener);
+    }
+
+    /**
+     * Stops recording
+     * @returns Promise which resolves once the file is written
+     */
+    stop(): Promise<void> {
+        this.client.removeListener("datagram", this.listener);
+
+        return new Promise((resolve, reject) => {
+            const stream = this.stream;
+            this.stream = null;
+            if (!stream) {
+                resolve();
+                return;
+            }
+
+            stream.once("error", reject);
+            stream.end(resolve);
+        });
+    }
+
+    /**
+     * Writes a received datagram to the file
+     * @param socket socket the datagram was received on
+     * @param msg datagram buffer
+     * @param rinfo remoteinfo
+     */
+    private record(socket: TCNetSocketType, msg: Buffer, rinfo: RemoteInfo): void {
+        if (!this.stream || msg.length < 24) {
+            return;
+        }
+
+        const header = new nw.TCNetManagementHeader(msg);
+        header.read();
+        this.stream.write(
+            JSON.stringify({
+                time: Date.now(),
+                socket,
+                address: rinfo.address,
+                port: rinfo.port,
+                messageType: header.messageType,
+                data: msg.toString("base64"),
+            }) + "\n",
+        );
+    }
+}
+
+/**
+ * Reads a capture written by TCNetRecorder
+ * @param path file to read
+ * @returns all frames of the capture
+ */
+export async function readCapture(path: string): Promise<TCNetCaptureFrame[]> {
+    const content = await promises.readFile(path, "utf8");
+
+    return content
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        .map((line) => {
+            const frame = JSON.parse(line);
+            return {
+                ...frame,
+                data: Buffer.from(frame.data, "base64"),
+            };
+        });
+}
+
+/**
+ * Replays captured frames into a client as if they were received from the network
+ *
+ * The client has to be connected (or connected offline) for the usual events to be emitted.
+ * Emits `frame` for every replayed frame and `end` when all frames have been replayed.
+ */
+export class TCNetReplayer extends EventEmitter {
+    private frames: TCNetCaptureFrame[];
+    private client: TCNetClient;
+    private speed: number;
+    private timeout: NodeJS.Timeout | null = null;
+    private stopHandler: (() => void) | null = null;
+
+    /**
+     *
+     * @param frames frames to replay
+     * @param client client to replay into
+     * @param speed playback speed (1 = real time, 2 = twice as fast, ...)
+     */
+    constructor(frames: TCNetCaptureFrame[], client: TCNetClient, speed = 1) {
+        super();
+        assert(speed > 0, "speed must be positive");
+        this.frames = frames;
+        this.client = client;
+        this.speed = speed;
+    }
+
+    /**
+     * Replays all frames
+     * @returns Promise which resolves once all frames have been replayed or the replay was stopped
+     */
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            const start = Date.now();
+            const firstTime = this.frames.length > 0 ? this.frames[0].time : 0;
+            let idx = 0;
+
+            this.stopHandler = resolve;
+
+            const next = (): void => {
+                while (idx < this.frames.length) {
+                    const frame = this.frames[idx];
+                    const due = (frame.time - firstTime) / this.speed - (Date.now() - start);
+                    if (due > 0) {
+                        this.timeout = setTimeout(next, due);
+                        return;
+                    }
+
+                    idx++;
+                    this.client.receive(frame.socket, frame.data, {
+                        address: frame.address,
+                        port: frame.port,
+                        family: "IPv4",
+                        size: frame.data.length,
+                    });
+                    this.emit("frame", frame);
+                }
+
+                this.timeout = null;
+                this.stopHandler = null;
+                this.emit("end");
+                resolve();
+            };
+            next();
+        });
+    }
+
+    /**
+     * Stops a running replay
+     */
+    stop(): void {
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+            this.timeout = null;
+        }
+        if (this.stopHandler) {
+            this.stopHandler();
+            this.stopHandler = null;
+        }
+    }
+}
@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+import { RemoteInfo } from "dgram";
+import * as nw from "./network";
+import { TCNetClient, TCNetConfiguration, TCNetSocketType } from "./tcnet";
+import { PioneerDJTCClient, LayerIndex } from "./pioneer";
+
+const USAGE = `Usage: tcnet <command> [options]
+
+Commands:
+  nodes               list all nodes seen on the network
+  watch               live table of layer status, track ID, time and BPM
+  track <layer>       show track info of a layer (1-8)
+  dump                print all received packets as JSON lines
+
+Options (see TCNetConfiguration):
+  --broadcast-interface <name>   interface to use, e.g. eth0
+  --broadcast-interfaces <names> comma separated interfaces to listen on at once
+  --auto-detect-interface        listen on all interfaces and use the one of the master
+  --broadcast-address <address>  broadcast address to use
+  --unicast-port <port>          port to receive unicast packets on
+  --node-name <name>             name of this node
+  --request-timeout <ms>         timeout for requests and connecting
+  --debug                        print debug output
+  --duration <ms>                time to collect nodes (nodes only, default 3000)
+`;
+
+type Arguments = {
+    command: string | null;
+    params: string[];
+    config: TCNetConfiguration;
+    duration: number;
+};
+
+/**
+ * Options of the command line mapped onto the fields of TCNetConfiguration, with the type of their value
+ */
+const OPTIONS: Record<string, { field: keyof TCNetConfiguration; type: "string" | "list" | "number" | "flag" }> = {
+    "--broadcast-interface": { field: "broadcastInterface", type: "string" },
+    "--broadcast-interfaces": { field: "broadcastInterfaces", type: "list" },
+    "--auto-detect-interface": { field: "autoDetectInterface", type: "flag" },
+    "--broadcast-address": { field: "broadcastAddress", type: "string" },
+    "--unicast-port": { field: "unicastPort", type: "number" },
+    "--node-name": { field: "nodeName", type: "string" },
+    "--request-timeout": { field: "requestTimeout", type: "number" },
+    "--debug": { field: "debug", type: "flag" },
+};
+
+/**
+ * Parses the command line, only the options listed in the usage are accepted
+ * @param argv command line arguments without node and script
+ * @returns parsed arguments
+ */
+function parseArguments(argv: string[]): Arguments {
+    const config = new TCNetConfiguration();
+    const fields = config as unknown as Record<string, unknown>;
+    const args: Arguments = { command: null, params: [], config, duration: 3000 };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith("--")) {
+            if (args.command === null) {
+                args.command = arg;
+            } else {
+                args.params.push(arg);
+            }
+            continue;
+        }
+
+        if (arg === "--duration") {
+            const value = Number(argv[++i]);
+            if (isNaN(value)) {
+                throw new Error(`Option ${arg} requires a number`);
+            }
+            args.duration = value;
+            continue;
+        }
+
+        const option = Object.prototype.hasOwnProperty.call(OPTIONS, arg) ? OPTIONS[arg] : undefined;
+        if (!option) {
+            throw new Error(`Unknown option ${arg}`);
+        }
+
+        if (option.type === "flag") {
+            fields[option.field] = true;
+            continue;
+        }
+
+        const value = argv[++i];
+        if (value === undefined) {
+            throw new Error(`Option ${arg} requires a value`);
+        }
+        if (option.type === "list") {
+            fields[option.field] = value.split(",");
+        } else if (option.type === "number") {
+            if (isNaN(Number(value))) {
+                throw new Error(`Option ${arg} requires a number`);
+            }
+            fields[option.field] = Number(value);
+        } else {
+            fields[option.field] = value;
+        }
+    }
+
+    return args;
+}
+
+/**
+ * Formats a time in milliseconds as mm:ss.mmm
+ * @param ms time in milliseconds
+ * @returns formatted time
+ */
+function formatTime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    const millis = ms % 1000;
+    return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${millis
+        .toString()
+        .padStart(3, "0")}`;
+}
+
+/**
+ * Prints rows as a table with aligned columns
+ * @param rows rows, the first row is the heading
+ */
+function printTable(rows: string[][]): void {
+    const widths = rows[0].map((_el, col) => Math.max(...rows.map((row) => row[col].length)));
+    for (const row of rows) {
+        console.log(row.map((el, col) => el.padEnd(widths[col])).join("  "));
+    }
+}
+
+/**
+ * Decodes a datagram with the packet classes, Data packets with the class of their data type if it is known
+ * @param msg datagram buffer
+ * @returns the decoded packet or null if the message type is not supported or the datagram has the wrong length
+ */
+function decodePacket(msg: Buffer): nw.TCNetPacket | null {
+    const packet = nw.decodePacket(msg);
+    if (packet instanceof nw.TCNetDataPacket && packet.header.messageType == nw.TCNetMessageType.Data) {
+        return nw.decodeDataPacket(packet) || packet;
+    }
+    return packet;
+}
+
+/**
+ * Lists all nodes seen on the network
+ * @param args parsed arguments
+ */
+async function nodes(args: Arguments): Promise<void> {
+    // Only listen, nodes are also discovered on a network without a master
+    const client = new TCNetClient(args.config);
+    await client.listen();
+    await new Promise((resolve) => setTimeout(resolve, args.duration));
+
+    const rows = [["Node ID", "Name", "Type", "Address", "Interface", "Port", "Vendor", "App", "Version", "Uptime"]];
+    for (const node of client.nodes().nodes()) {
+        rows.push([
+            node.nodeId.toString(),
+            node.nodeName,
+            nw.NodeType[node.nodeType] || node.nodeType.toString(),
+            node.address,
+            node.interface || "",
+            node.listenerPort.toString(),
+            node.vendorName || "",
+            node.appName || "",
+            node.version || "",
+            node.uptime !== null ? `${node.uptime}s` : "",
+        ]);
+    }
+    printTable(rows);
+
+    client.disconnect();
+}
+
+/**
+ * Shows a live table of all layers until interrupted
+ * @param args parsed arguments
+ */
+async function watch(args: Arguments): Promise<void> {
+    const client = new PioneerDJTCClient(args.config);
+    await client.connect();
+    client.startMetricsPolling();
+
+    const render = (): void => {
+        const rows = [["Layer", "Name", "Status", "Track ID", "Time", "Total", "BPM"]];
+        for (const layer of client.state().snapshot()) {
+            rows.push([
+                LayerIndex[layer.layer],
+                layer.name || "",
+                layer.status >= 0 ? nw.TCNetLayerStatus[layer.status] || layer.status.toString() : "",
+                layer.trackID >= 0 ? layer.trackID.toString() : "",
+                layer.currentTime >= 0 ? formatTime(layer.currentTime) : "",
+                layer.totalTime >= 0 ? formatTime(layer.totalTime) : "",
+                layer.trackID > 0 && layer.bpm >= 0 ? (layer.bpm / 100).toFixed(2) : "",
+            ]);
+        }
+
+        // Clear screen and move cursor home
+        process.stdout.write("\x1b[2J\x1b[H");
+        printTable(rows);
+    };
+
+    const renderInterval = setInterval(render, 200);
+
+    await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+    clearInterval(renderInterval);
+    client.disconnect();
+}
+
+/**
+ * Shows the track info of a layer
+ * @param args parsed arguments
+ */
+async function track(args: Arguments): Promise<void> {
+    const layer = Number(args.params[0]);
+    if (!(1 <= layer && layer <= 8)) {
+        throw new Error("Layer must be in the range of 1-8");
+    }
+
+    const client = new PioneerDJTCClient(args.config);
+    await client.connect();
+    try {
+        const info = await client.trackInfo(layer);
+        console.log(
+            JSON.stringify(
+                {
+                    trackID: info.trackID,
+                    trackArtist: info.trackArtist,
+                    trackTitle: info.trackTitle,
+                    trackKey: info.trackKey,
+                },
+                null,
+                2,
+            ),
+        );
+    } finally {
+        client.disconnect();
+    }
+}
+
+/**
+ * Prints all received packets as JSON lines until interrupted
+ * @param args parsed arguments
+ */
+async function dump(args: Arguments): Promise<void> {
+    const client = new TCNetClient(args.config);
+
+    client.on("datagram", (socket: TCNetSocketType, msg: Buffer, rinfo: RemoteInfo) => {
+        const packet = decodePacket(msg);
+        console.log(
+            JSON.stringify(
+                {
+                    time: Date.now(),
+                    socket,
+                    address: rinfo.address,
+                    port: rinfo.port,
+                    type: packet ? packet.constructor.name : null,
+                    packet,
+                },
+                (key, value) => (key === "buffer" ? undefined : value),
+            ),
+        );
+    });
+    await client.listen();
+
+    await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+    client.disconnect();
+}
+
+/**
+ * Entry point of the command line tool
+ */
+async function main(): Promise<void> {
+    const args = parseArguments(process.argv.slice(2));
+
+    switch (args.command) {
+        case "nodes":
+            await nodes(args);
+            break;
+        case "watch":
+            await watch(args);
+            break;
+        case "track":
+            await track(args);
+            break;
+        case "dump":
+            await dump(args);
+            break;
+        default:
+            console.log(USAGE);
+            process.exitCode = args.command === null ? 0 : 1;
+    }
+}
+
+main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+});
@@ -0,0 +1,188 @@
+import EventEmitter = require("events");
+import * as nw from "./network";
+import { PioneerDJTCClient, LayerIndex } from "./pioneer";
+
+/**
+ * Difference in milliseconds between interpolated and received position above which a jump is assumed
+ */
+const JUMP_THRESHOLD = 100;
+
+/**
+ * Interpolated position of a layer
+ */
+export type LayerClockPosition = {
+    layer: LayerIndex;
+    position: number;
+    playing: boolean;
+};
+
+/**
+ * Position of a layer as received in the last Time packet
+ */
+type ClockAnchor = {
+    position: number;
+    time: number;
+    totalTime: number;
+    status: nw.TCNetLayerStatus;
+};
+
+/**
+ * Interpolates the playhead position of all layers between Time packets
+ *
+ * The position is extrapolated from the last Time packet with the speed of the layer from Metrics data (10000 = 100%),
+ * so metrics polling of the client should be enabled for pitched tracks. While looping, the position wraps at the loop
+ * points if the cues of the track are cached.
+ *
+ * Emits `tick` with the positions of all layers every tick interval and `jump` with layer, previous and new position
+ * when the received position differs from the interpolated one (e.g. seeking, hot cues or loops).
+ */
+export class LayerClock extends EventEmitter {
+    private client: PioneerDJTCClient;
+    private tickInterval: number;
+    private anchors: (ClockAnchor | null)[] = new Array(8).fill(null);
+    private listener: (packet: nw.TCNetTimePacket) => void;
+    private interval: NodeJS.Timeout | null = null;
+
+    /**
+     *
+     * @param client client to receive Time packets and layer state from
+     * @param tickInterval interval of the `tick` event in milliseconds, 0 to disable ticks
+     */
+    constructor(client: PioneerDJTCClient, tickInterval = 10) {
+        super();
+        this.client = client;
+        this.tickInterval = tickInterval;
+        this.listener = this.receiveTime.bind(this);
+    }
+
+    /**
+     * Starts following Time packets and emitting `tick` events
+     */
+    start(): void {
+        this.stop();
+        this.client.client().on("time", this.listener);
+        if (this.tickInterval > 0) {
+            this.interval = setInterval(() => {
+                this.emit("tick", this.positions());
+            }, this.tickInterval);
+        }
+    }
+
+    /**
+     * Stops the clock
+     */
+    stop(): void {
+        this.client.client().removeListener("time", this.listener);
+        if (this.interval) {
+            clearInterval(this.interval);
+            this.interval = null;
+        }
+    }
+
+    /**
+     * Interpolated position of a layer at a point in time
+     * @param layer layer
+     * @param now local time in milliseconds (as returned by Date.now())
+     * @returns position in milliseconds or null if no Time packet has been received for the layer
+     */
+    positionAt(layer: LayerIndex, now = Date.now()): number | null {
+        const anchor = this.anchors[layer - 1];
+        if (!anchor) {
+            return null;
+        }
+
+        let position = anchor.position + Math.max(0, now - anchor.time) * this.rate(layer, anchor.status);
+
+        if (anchor.status == nw.TCNetLayerStatus.LOOPING) {
+            const cues = this.client.cachedTrack(this.client.state().trackID(layer))?.cues;
+            if (cues && cues.loopOutTime > cues.loopInTime && position > cues.loopOutTime) {
+                position = cues.loopInTime + ((position - cues.loopInTime) % (cues.loopOutTime - cues.loopInTime));
+            }
+        }
+
+        if (anchor.totalTime > 0) {
+            position = Math.min(position, anchor.totalTime);
+        }
+        return Math.max(0, position);
+    }
+
+    /**
+     * Interpolated positions of all layers which received a Time packet
+     * @param now local time in milliseconds (as returned by Date.now())
+     * @returns positions, ordered by layer
+     */
+    positions(now = Date.now()): LayerClockPosition[] {
+        const positions: LayerClockPosition[] = [];
+        this.anchors.forEach((el, n) => {
+            const position = this.positionAt(n + 1, now);
+            if (el && position !== null) {
+                positions.push({
+                    layer: n + 1,
+                    position,
+                    playing: this.isPlaying(el.status),
+                });
+            }
+        });
+        return positions;
+    }
+
+    /**
+     * Resynchronizes all layers with a received Time packet
+     * @param packet received time packet
+     */
+    private receiveTime(packet: nw.TCNetTimePacket): void {
+        const now = Date.now();
+
+        for (let n = 0; n < 8; n++) {
+            const expected = this.positionAt(n + 1, now);
+            const position = packet.layerCurrentTime[n];
+            const previous = this.anchors[n];
+
+            this.anchors[n] = {
+                position,
+                time: now,
+                totalTime: packet.layerTotalTime[n],
+                status: packet.layerState[n],
+            };
+
+            if (
+                previous &&
+                expected !== null &&
+                this.isPlaying(previous.status) &&
+                Math.abs(position - expected) > JUMP_THRESHOLD
+            ) {
+                this.emit("jump", n + 1, expected, position);
+            }
+        }
+    }
+
+    /**
+     * Playback rate of a layer
+     * @param layer layer
+     * @param status status of the layer
+     * @returns rate, 1 for normal speed
+     */
+    private rate(layer: LayerIndex, status: nw.TCNetLayerStatus): number {
+        if (!this.isPlaying(status)) {
+            return 0;
+        }
+
+        // Speed is 0 if the last Metrics were received while the layer was paused, fall back to the pitch in that case
+        const state = this.client.state().layer(layer);
+        if (state.speed > 0) {
+            return state.speed / 10000;
+        } else if (state.pitchBend > 0) {
+            return state.pitchBend / 10000;
+        }
+        return 1;
+    }
+
+    /**
+     * Checks whether the playhead moves forward with the speed of the layer in a status
+     * @param status status of the layer
+     * @returns true if the layer is playing
+     */
+    private isPlaying(status: nw.TCNetLayerStatus): boolean {
+        return status == nw.TCNetLayerStatus.PLAYING || status == nw.TCNetLayerStatus.LOOPING;
+    }
+}
@@ -1,5 +1,60 @@
-export { TCNetClient, TCNetConfiguration } from "./tcnet";
+export { TCNetClient, TCNetConfiguration, TCNetConnectionState, TCNetSocketType, TCNetMessageSender } from "./tcnet";
 
-export { PioneerDJTCClient, LayerIndex, LayerIndexUtil, TrackInfo } from "./pioneer";
+export {
+    TCNetTransport,
+    TCNetTransportOptions,
+    TCNetReceiver,
+    TCNetUDPTransport,
+    TCNetLoopbackNetwork,
+    TCNetLoopbackTransport,
+} from "./transport";
+
+export { TCNetNodeRegistry, TCNetNode } from "./registry";
+
+export { TCNetInterface, listInterfaces } from "./utils";
+
+export { TCNetRequestOptions, TCNetAbortSignal } from "./requests";
+
+export { TCNetServer, TCNetServerConfiguration, TCNetServerLayer, TCNetLayerDataSource } from "./server";
+
+export { TCNetRecorder, TCNetReplayer, TCNetCaptureFrame, readCapture } from "./capture";
+
+export { readPcap, PcapOptions } from "./pcap";
+
+export { LayerClock, LayerClockPosition } from "./clock";
+
+export {
+    TimecodeGenerator,
+    TimecodeGeneratorConfiguration,
+    TimecodeFrameRate,
+    SMPTETimecode,
+    LTCEncoder,
+    frameFromTime,
+    timecodeFromFrame,
+    timecodeFromTime,
+    timeFromTimecode,
+    mtcFullFrame,
+    mtcQuarterFrame,
+} from "./timecode";
+
+export { TCNetSimulator, TCNetSimulatorConfiguration, TCNetVirtualTrack } from "./simulator";
+
+export {
+    PioneerDJTCClient,
+    PioneerDJConfiguration,
+    LayerIndex,
+    LayerIndexUtil,
+    TrackInfo,
+    CachedTrack,
+    BeatInfo,
+    CueInfo,
+    CuePoint,
+    WaveFormInfo,
+    MixerEQ,
+    MixerCue,
+    LayerState,
+    LayerStateField,
+    LayerTimecode,
+} from "./pioneer";
 
 export * from "./network";
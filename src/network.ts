@@ -23,6 +23,7 @@ export enum TCNetDataPacketType {
     CUEData = 12,
     SmallWaveFormData = 16,
     BigWaveFormData = 32,
+    LowResArtworkFile = 128,
     MixerData = 150,
 }
 
@@ -127,9 +128,9 @@ export class TCNetOptInPacket extends TCNetPacket {
         this.buffer.writeUInt16LE(this.uptime, 28);
         this.buffer.write(this.vendorName.padEnd(16, "\x00"), 32, "ascii");
         this.buffer.write(this.appName.padEnd(16, "\x00"), 48, "ascii");
-        this.buffer.writeUInt8(64, this.majorVersion);
-        this.buffer.writeUInt8(65, this.minorVersion);
-        this.buffer.writeUInt8(66, this.bugVersion);
+        this.buffer.writeUInt8(this.majorVersion, 64);
+        this.buffer.writeUInt8(this.minorVersion, 65);
+        this.buffer.writeUInt8(this.bugVersion, 66);
     }
 
     length(): number {
@@ -163,6 +164,34 @@ export class TCNetOptOutPacket extends TCNetPacket {
     }
 }
 
+export enum TCNetTimeSyncStep {
+    Initialize = 0,
+    Response = 1,
+}
+
+export class TCNetTimeSyncPacket extends TCNetPacket {
+    step: TCNetTimeSyncStep;
+    nodeListenerPort: number;
+    remoteTimestamp: number;
+
+    read(): void {
+        this.step = this.buffer.readUInt8(24);
+        this.nodeListenerPort = this.buffer.readUInt16LE(26);
+        this.remoteTimestamp = this.buffer.readUInt32LE(28);
+    }
+    write(): void {
+        this.buffer.writeUInt8(this.step, 24);
+        this.buffer.writeUInt16LE(this.nodeListenerPort, 26);
+        this.buffer.writeUInt32LE(this.remoteTimestamp, 28);
+    }
+    length(): number {
+        return 32;
+    }
+    type(): number {
+        return TCNetMessageType.TimeSync;
+    }
+}
+
 export enum TCNetLayerStatus {
     IDLE = 0,
     PLAYING = 3,
@@ -210,7 +239,25 @@ export class TCNetStatusPacket extends TCNetPacket {
         }
     }
     write(): void {
-        throw new Error("not supported!");
+        this.buffer.writeUInt16LE(this.nodeCount, 24);
+        this.buffer.writeUInt16LE(this.nodeListenerPort, 26);
+
+        for (let n = 0; n < 8; n++) {
+            this.buffer.writeUInt8(this.layerSource[n], 34 + n);
+        }
+        for (let n = 0; n < 8; n++) {
+            this.buffer.writeUInt8(this.layerStatus[n], 42 + n);
+        }
+        for (let n = 0; n < 8; n++) {
+            this.buffer.writeUInt32LE(this.trackID[n], 50 + n * 4);
+        }
+        this.buffer.writeUInt8(this.smpteMode, 83);
+        this.buffer.writeUInt8(this.autoMasterMode, 84);
+
+        for (let n = 0; n < 8; n++) {
+            assert(Buffer.from(this.layerName[n], "ascii").length <= 16);
+            this.buffer.write(this.layerName[n].padEnd(16, "\x00"), 172 + n * 16, "ascii");
+        }
     }
     length(): number {
         return 300;
@@ -243,6 +290,199 @@ export class TCNetRequestPacket extends TCNetPacket {
     }
 }
 
+export enum TCNetErrorCode {
+    Unknown = 1,
+    NotPossible = 13,
+    EmptyData = 14,
+    OK = 255,
+}
+
+export class TCNetErrorPacket extends TCNetPacket {
+    dataType: number;
+    layer: number;
+    code: TCNetErrorCode;
+    messageType: TCNetMessageType;
+
+    read(): void {
+        this.dataType = this.buffer.readUInt8(24);
+        this.layer = this.buffer.readUInt8(25);
+        this.code = this.buffer.readUInt16LE(26);
+        this.messageType = this.buffer.readUInt16LE(28);
+    }
+    write(): void {
+        this.buffer.writeUInt8(this.dataType, 24);
+        this.buffer.writeUInt8(this.layer, 25);
+        this.buffer.writeUInt16LE(this.code, 26);
+        this.buffer.writeUInt16LE(this.messageType, 28);
+    }
+    length(): number {
+        return 30;
+    }
+    type(): number {
+        return TCNetMessageType.Error;
+    }
+}
+
+/**
+ * Error reported by a TCNet node in reply to a request
+ */
+export class TCNetProtocolError extends Error {
+    dataType: number;
+    layer: number;
+    code: TCNetErrorCode;
+    messageType: TCNetMessageType;
+
+    constructor(packet: TCNetErrorPacket) {
+        super(
+            `TCNet error ${TCNetErrorCode[packet.code] || packet.code} ` +
+                `(message type: ${packet.messageType}, data type: ${packet.dataType}, layer: ${packet.layer})`,
+        );
+        this.name = "TCNetProtocolError";
+        this.dataType = packet.dataType;
+        this.layer = packet.layer;
+        this.code = packet.code;
+        this.messageType = packet.messageType;
+    }
+}
+
+export class TCNetControlPacket extends TCNetPacket {
+    step: number;
+    dataSize: number;
+    controlPath: string;
+
+    read(): void {
+        this.step = this.buffer.readUInt8(24);
+        this.dataSize = this.buffer.readUInt32LE(26);
+        this.controlPath = this.buffer
+            .slice(42, 42 + this.dataSize)
+            .toString("ascii")
+            .replace(/\0.*$/g, "");
+    }
+    write(): void {
+        this.dataSize = Buffer.byteLength(this.controlPath, "ascii");
+
+        this.buffer.writeUInt8(this.step, 24);
+        this.buffer.writeUInt32LE(this.dataSize, 26);
+        this.buffer.write(this.controlPath, 42, "ascii");
+    }
+    length(): number {
+        // Variable length, only known when sending a control path
+        if (this.controlPath === undefined) {
+            return -1;
+        }
+        return 42 + Buffer.byteLength(this.controlPath, "ascii");
+    }
+    type(): number {
+        return TCNetMessageType.Control;
+    }
+}
+
+export class TCNetApplicationDataPacket extends TCNetPacket {
+    dataIdentifier1: number;
+    dataIdentifier2: number;
+    dataSize: number;
+    totalPackets: number;
+    packetNo: number;
+    packetSignature: number;
+    data: Buffer;
+
+    read(): void {
+        this.dataIdentifier1 = this.buffer.readUInt8(24);
+        this.dataIdentifier2 = this.buffer.readUInt8(25);
+        this.dataSize = this.buffer.readUInt32LE(26);
+        this.totalPackets = this.buffer.readUInt32LE(30);
+        this.packetNo = this.buffer.readUInt32LE(34);
+        this.packetSignature = this.buffer.readUInt32LE(38);
+        this.data = this.buffer.slice(42, 42 + this.dataSize);
+    }
+    write(): void {
+        this.dataSize = this.data.length;
+
+        this.buffer.writeUInt8(this.dataIdentifier1, 24);
+        this.buffer.writeUInt8(this.dataIdentifier2, 25);
+        this.buffer.writeUInt32LE(this.dataSize, 26);
+        this.buffer.writeUInt32LE(this.totalPackets, 30);
+        this.buffer.writeUInt32LE(this.packetNo, 34);
+        this.buffer.writeUInt32LE(this.packetSignature, 38);
+        this.data.copy(this.buffer, 42);
+    }
+    length(): number {
+        // Variable length, only known when sending data
+        if (this.data === undefined) {
+            return -1;
+        }
+        return 42 + this.data.length;
+    }
+    type(): number {
+        return TCNetMessageType.ApplicationData;
+    }
+}
+
+export class TCNetTextPacket extends TCNetPacket {
+    step: number;
+    dataSize: number;
+    text: string;
+
+    read(): void {
+        this.step = this.buffer.readUInt8(24);
+        this.dataSize = this.buffer.readUInt32LE(26);
+        this.text = this.buffer
+            .slice(42, 42 + this.dataSize)
+            .toString("utf8")
+            .replace(/\0.*$/g, "");
+    }
+    write(): void {
+        this.dataSize = Buffer.byteLength(this.text, "utf8");
+
+        this.buffer.writeUInt8(this.step, 24);
+        this.buffer.writeUInt32LE(this.dataSize, 26);
+        this.buffer.write(this.text, 42, "utf8");
+    }
+    length(): number {
+        // Variable length, only known when sending a text
+        if (this.text === undefined) {
+            return -1;
+        }
+        return 42 + Buffer.byteLength(this.text, "utf8");
+    }
+    type(): number {
+        return TCNetMessageType.Text;
+    }
+}
+
+export enum TCNetKeyModifier {
+    None = 0,
+    Shift = 1,
+    Control = 2,
+    Alt = 4,
+    Meta = 8,
+}
+
+export class TCNetKeyboardPacket extends TCNetPacket {
+    dataSize: number;
+    keyCode: number;
+    modifiers: number;
+
+    read(): void {
+        this.dataSize = this.buffer.readUInt32LE(26);
+        this.keyCode = this.buffer.readUInt16LE(42);
+        this.modifiers = this.buffer.readUInt16LE(44);
+    }
+    write(): void {
+        this.dataSize = 4;
+
+        this.buffer.writeUInt32LE(this.dataSize, 26);
+        this.buffer.writeUInt16LE(this.keyCode, 42);
+        this.buffer.writeUInt16LE(this.modifiers, 44);
+    }
+    length(): number {
+        return 46;
+    }
+    type(): number {
+        return TCNetMessageType.Keyboard;
+    }
+}
+
 export enum TCNetTimecodeState {
     Stopped = 0,
     Running = 1,
@@ -265,6 +505,15 @@ export class TCNetTimecode {
         this.seconds = buffer.readUInt8(offset + 4);
         this.frames = buffer.readUInt8(offset + 5);
     }
+
+    write(buffer: Buffer, offset: number): void {
+        buffer.writeUInt8(this.mode, offset + 0);
+        buffer.writeUInt8(this.state, offset + 1);
+        buffer.writeUInt8(this.hours, offset + 2);
+        buffer.writeUInt8(this.minutes, offset + 3);
+        buffer.writeUInt8(this.seconds, offset + 4);
+        buffer.writeUInt8(this.frames, offset + 5);
+    }
 }
 
 export class TCNetTimePacket extends TCNetPacket {
@@ -287,7 +536,14 @@ export class TCNetTimePacket extends TCNetPacket {
         this.generalSMPTEMode = this.buffer.readUInt8(105);
     }
     write(): void {
-        throw new Error("not supported!");
+        for (let n = 0; n < 8; n++) {
+            this.buffer.writeUInt32LE(this.layerCurrentTime[n], 24 + n * 4);
+            this.buffer.writeUInt32LE(this.layerTotalTime[n], 56 + n * 4);
+            this.buffer.writeUInt8(this.layerBeatmarker[n], 88 + n);
+            this.buffer.writeUInt8(this.layerState[n], 96 + n);
+            this.layerTimecode[n].write(this.buffer, 106 + n * 6);
+        }
+        this.buffer.writeUInt8(this.generalSMPTEMode, 105);
     }
     length(): number {
         return 154;
@@ -338,6 +594,8 @@ export class TCNetDataPacketMetrics extends TCNetDataPacket {
     trackID: number;
 
     read(): void {
+        super.read();
+
         this.state = this.buffer.readUInt8(27);
         this.syncMaster = this.buffer.readUInt8(29);
         this.beatMarker = this.buffer.readUInt8(31);
@@ -351,7 +609,18 @@ export class TCNetDataPacketMetrics extends TCNetDataPacket {
     }
 
     write(): void {
-        throw new Error("not supported!");
+        super.write();
+
+        this.buffer.writeUInt8(this.state, 27);
+        this.buffer.writeUInt8(this.syncMaster, 29);
+        this.buffer.writeUInt8(this.beatMarker, 31);
+        this.buffer.writeUInt32LE(this.trackLength, 32);
+        this.buffer.writeUInt32LE(this.currentPosition, 36);
+        this.buffer.writeUInt32LE(this.speed, 40);
+        this.buffer.writeUInt32LE(this.beatNumber, 57);
+        this.buffer.writeUInt32LE(this.bpm, 112);
+        this.buffer.writeUInt16LE(this.pitchBend, 116);
+        this.buffer.writeUInt32LE(this.trackID, 118);
     }
     length(): number {
         return 122;
@@ -365,19 +634,452 @@ export class TCNetDataPacketMetadata extends TCNetDataPacket {
     trackID: number;
 
     read(): void {
+        super.read();
+
         this.trackArtist = this.buffer.slice(29, 285).toString("ascii").replace(/\0.*$/g, "");
         this.trackTitle = this.buffer.slice(285, 541).toString("ascii").replace(/\0.*$/g, "");
         this.trackKey = this.buffer.readUInt16LE(541);
         this.trackID = this.buffer.readUInt32LE(543);
     }
     write(): void {
-        throw new Error("not supported!");
+        assert(Buffer.from(this.trackArtist, "ascii").length <= 256);
+        assert(Buffer.from(this.trackTitle, "ascii").length <= 256);
+        super.write();
+
+        this.buffer.write(this.trackArtist.padEnd(256, "\x00"), 29, "ascii");
+        this.buffer.write(this.trackTitle.padEnd(256, "\x00"), 285, "ascii");
+        this.buffer.writeUInt16LE(this.trackKey, 541);
+        this.buffer.writeUInt32LE(this.trackID, 543);
     }
     length(): number {
         return 548;
     }
 }
 
+/**
+ * Base class for data packets whose payload may be split over several datagrams
+ */
+export class TCNetDataPacketMultiPart extends TCNetDataPacket {
+    static DATA_OFFSET = 42;
+
+    dataSize: number;
+    totalPackets: number;
+    packetNo: number;
+    dataClusterSize: number;
+
+    read(): void {
+        super.read();
+
+        this.dataSize = this.buffer.readUInt32LE(26);
+        this.totalPackets = this.buffer.readUInt32LE(30);
+        this.packetNo = this.buffer.readUInt32LE(34);
+        this.dataClusterSize = this.buffer.readUInt32LE(38);
+    }
+    write(): void {
+        super.write();
+
+        this.buffer.writeUInt32LE(this.dataSize, 26);
+        this.buffer.writeUInt32LE(this.totalPackets, 30);
+        this.buffer.writeUInt32LE(this.packetNo, 34);
+        this.buffer.writeUInt32LE(this.dataClusterSize, 38);
+    }
+
+    /**
+     * Payload carried by this packet (without headers)
+     */
+    data(): Buffer {
+        return this.buffer.slice(TCNetDataPacketMultiPart.DATA_OFFSET);
+    }
+}
+
+export enum TCNetBeatType {
+    Upbeat = 10,
+    Downbeat = 20,
+}
+
+/**
+ * File transferred in File packets, e.g. the artwork of a track as JPEG
+ *
+ * Files larger than a data cluster are split over several packets.
+ */
+export class TCNetFilePacket extends TCNetDataPacketMultiPart {
+    content: Buffer;
+
+    read(): void {
+        super.read();
+
+        // A single packet may be padded, the data size covers the whole file
+        const data = this.data();
+        this.content = this.dataSize > 0 && this.dataSize < data.length ? data.slice(0, this.dataSize) : data;
+    }
+    write(): void {
+        assert(TCNetDataPacketMultiPart.DATA_OFFSET + this.content.length <= this.length());
+        super.write();
+
+        this.content.copy(this.buffer, TCNetDataPacketMultiPart.DATA_OFFSET);
+    }
+    length(): number {
+        // Variable length, only known when sending a file
+        if (this.content === undefined) {
+            return -1;
+        }
+        return TCNetDataPacketMultiPart.DATA_OFFSET + this.content.length;
+    }
+    type(): number {
+        return TCNetMessageType.File;
+    }
+}
+
+export class TCNetBeatGridEntry {
+    static SIZE = 8;
+
+    beatNumber: number;
+    beatType: TCNetBeatType;
+    timestamp: number;
+
+    read(buffer: Buffer, offset: number): void {
+        this.beatNumber = buffer.readUInt16LE(offset + 0);
+        this.beatType = buffer.readUInt8(offset + 2);
+        this.timestamp = buffer.readUInt32LE(offset + 4);
+    }
+
+    write(buffer: Buffer, offset: number): void {
+        buffer.writeUInt16LE(this.beatNumber, offset + 0);
+        buffer.writeUInt8(this.beatType, offset + 2);
+        buffer.writeUInt32LE(this.timestamp, offset + 4);
+    }
+}
+
+export class TCNetDataPacketBeatGrid extends TCNetDataPacketMultiPart {
+    beats: TCNetBeatGridEntry[] = [];
+
+    read(): void {
+        super.read();
+
+        this.beats = [];
+        const data = this.data();
+        for (let offset = 0; offset + TCNetBeatGridEntry.SIZE <= data.length; offset += TCNetBeatGridEntry.SIZE) {
+            const beat = new TCNetBeatGridEntry();
+            beat.read(data, offset);
+
+            // Unused entries at the end of the payload are zeroed
+            if (beat.beatNumber !== 0) {
+                this.beats.push(beat);
+            }
+        }
+    }
+    write(): void {
+        assert(TCNetDataPacketMultiPart.DATA_OFFSET + this.beats.length * TCNetBeatGridEntry.SIZE <= this.length());
+        super.write();
+
+        for (let n = 0; n < this.beats.length; n++) {
+            this.beats[n].write(this.buffer, TCNetDataPacketMultiPart.DATA_OFFSET + n * TCNetBeatGridEntry.SIZE);
+        }
+    }
+    length(): number {
+        return 2442;
+    }
+}
+
+export enum TCNetCueType {
+    Empty = 0,
+    Cue = 1,
+    Loop = 2,
+}
+
+export class TCNetCue {
+    static SIZE = 22;
+
+    type: TCNetCueType;
+    inTime: number;
+    outTime: number;
+    colorRed: number;
+    colorGreen: number;
+    colorBlue: number;
+
+    read(buffer: Buffer, offset: number): void {
+        this.type = buffer.readUInt8(offset + 0);
+        this.inTime = buffer.readUInt32LE(offset + 2);
+        this.outTime = buffer.readUInt32LE(offset + 6);
+        this.colorRed = buffer.readUInt8(offset + 11);
+        this.colorGreen = buffer.readUInt8(offset + 12);
+        this.colorBlue = buffer.readUInt8(offset + 13);
+    }
+
+    write(buffer: Buffer, offset: number): void {
+        buffer.writeUInt8(this.type, offset + 0);
+        buffer.writeUInt32LE(this.inTime, offset + 2);
+        buffer.writeUInt32LE(this.outTime, offset + 6);
+        buffer.writeUInt8(this.colorRed, offset + 11);
+        buffer.writeUInt8(this.colorGreen, offset + 12);
+        buffer.writeUInt8(this.colorBlue, offset + 13);
+    }
+}
+
+export class TCNetDataPacketCUE extends TCNetDataPacket {
+    static CUE_COUNT = 18;
+
+    loopInTime: number;
+    loopOutTime: number;
+    cues: TCNetCue[] = new Array(TCNetDataPacketCUE.CUE_COUNT);
+
+    read(): void {
+        super.read();
+
+        this.loopInTime = this.buffer.readUInt32LE(42);
+        this.loopOutTime = this.buffer.readUInt32LE(46);
+
+        for (let n = 0; n < TCNetDataPacketCUE.CUE_COUNT; n++) {
+            this.cues[n] = new TCNetCue();
+            this.cues[n].read(this.buffer, 50 + n * TCNetCue.SIZE);
+        }
+    }
+    write(): void {
+        super.write();
+
+        this.buffer.writeUInt32LE(this.loopInTime, 42);
+        this.buffer.writeUInt32LE(this.loopOutTime, 46);
+
+        for (let n = 0; n < TCNetDataPacketCUE.CUE_COUNT; n++) {
+            this.cues[n].write(this.buffer, 50 + n * TCNetCue.SIZE);
+        }
+    }
+    length(): number {
+        return 446;
+    }
+}
+
+export class TCNetDataPacketWaveForm extends TCNetDataPacketMultiPart {
+    colors: number[] = [];
+    heights: number[] = [];
+
+    read(): void {
+        super.read();
+
+        this.colors = [];
+        this.heights = [];
+        const data = this.data();
+        for (let offset = 0; offset + 2 <= data.length; offset += 2) {
+            this.colors.push(data.readUInt8(offset));
+            this.heights.push(data.readUInt8(offset + 1));
+        }
+    }
+    write(): void {
+        assert(this.colors.length == this.heights.length);
+        assert(TCNetDataPacketMultiPart.DATA_OFFSET + this.colors.length * 2 <= this.length());
+        super.write();
+
+        for (let n = 0; n < this.colors.length; n++) {
+            this.buffer.writeUInt8(this.colors[n], TCNetDataPacketMultiPart.DATA_OFFSET + n * 2);
+            this.buffer.writeUInt8(this.heights[n], TCNetDataPacketMultiPart.DATA_OFFSET + n * 2 + 1);
+        }
+    }
+    length(): number {
+        // Variable length, determined by the number of bars
+        return TCNetDataPacketMultiPart.DATA_OFFSET + this.colors.length * 2;
+    }
+}
+
+export class TCNetDataPacketSmallWaveForm extends TCNetDataPacketWaveForm {
+    length(): number {
+        return 2442;
+    }
+}
+
+export class TCNetDataPacketBigWaveForm extends TCNetDataPacketWaveForm {}
+
+export class TCNetMixerChannel {
+    static SIZE = 24;
+
+    sourceSelect: number;
+    audioLevel: number;
+    faderLevel: number;
+    trimLevel: number;
+    compLevel: number;
+    eqHi: number;
+    eqHiMid: number;
+    eqLowMid: number;
+    eqLow: number;
+    filterColor: number;
+    send: number;
+    cueA: number;
+    cueB: number;
+    crossfaderAssign: number;
+
+    read(buffer: Buffer, offset: number): void {
+        this.sourceSelect = buffer.readUInt8(offset + 0);
+        this.audioLevel = buffer.readUInt8(offset + 1);
+        this.faderLevel = buffer.readUInt8(offset + 2);
+        this.trimLevel = buffer.readUInt8(offset + 3);
+        this.compLevel = buffer.readUInt8(offset + 4);
+        this.eqHi = buffer.readUInt8(offset + 5);
+        this.eqHiMid = buffer.readUInt8(offset + 6);
+        this.eqLowMid = buffer.readUInt8(offset + 7);
+        this.eqLow = buffer.readUInt8(offset + 8);
+        this.filterColor = buffer.readUInt8(offset + 9);
+        this.send = buffer.readUInt8(offset + 10);
+        this.cueA = buffer.readUInt8(offset + 11);
+        this.cueB = buffer.readUInt8(offset + 12);
+        this.crossfaderAssign = buffer.readUInt8(offset + 13);
+    }
+
+    write(buffer: Buffer, offset: number): void {
+        buffer.writeUInt8(this.sourceSelect, offset + 0);
+        buffer.writeUInt8(this.audioLevel, offset + 1);
+        buffer.writeUInt8(this.faderLevel, offset + 2);
+        buffer.writeUInt8(this.trimLevel, offset + 3);
+        buffer.writeUInt8(this.compLevel, offset + 4);
+        buffer.writeUInt8(this.eqHi, offset + 5);
+        buffer.writeUInt8(this.eqHiMid, offset + 6);
+        buffer.writeUInt8(this.eqLowMid, offset + 7);
+        buffer.writeUInt8(this.eqLow, offset + 8);
+        buffer.writeUInt8(this.filterColor, offset + 9);
+        buffer.writeUInt8(this.send, offset + 10);
+        buffer.writeUInt8(this.cueA, offset + 11);
+        buffer.writeUInt8(this.cueB, offset + 12);
+        buffer.writeUInt8(this.crossfaderAssign, offset + 13);
+    }
+}
+
+export class TCNetDataPacketMixer extends TCNetDataPacket {
+    static CHANNEL_COUNT = 6;
+
+    mixerId: number;
+    mixerType: number;
+    mixerName: string;
+    micEqHi: number;
+    micEqLow: number;
+    masterAudioLevel: number;
+    masterFaderLevel: number;
+    linkCueA: number;
+    linkCueB: number;
+    masterFilter: number;
+    masterCueA: number;
+    masterCueB: number;
+    masterIsolatorOn: number;
+    masterIsolatorHi: number;
+    masterIsolatorMid: number;
+    masterIsolatorLow: number;
+    filterHpf: number;
+    filterLpf: number;
+    filterResonance: number;
+    sendFxEffect: number;
+    sendFxExt1: number;
+    sendFxExt2: number;
+    sendFxMasterMix: number;
+    sendFxSizeFeedback: number;
+    sendFxTime: number;
+    sendFxHpf: number;
+    sendFxLevel: number;
+    channelFaderCurve: number;
+    crossfaderCurve: number;
+    crossfader: number;
+    beatFxOn: number;
+    beatFxLevelDepth: number;
+    beatFxChannelSelect: number;
+    beatFxSelect: number;
+    beatFxFreqHi: number;
+    beatFxFreqMid: number;
+    beatFxFreqLow: number;
+    channels: TCNetMixerChannel[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT);
+
+    read(): void {
+        super.read();
+
+        this.mixerId = this.buffer.readUInt8(26);
+        this.mixerType = this.buffer.readUInt8(27);
+        this.mixerName = this.buffer.slice(30, 46).toString("ascii").replace(/\0.*$/g, "");
+        this.micEqHi = this.buffer.readUInt8(59);
+        this.micEqLow = this.buffer.readUInt8(60);
+        this.masterAudioLevel = this.buffer.readUInt8(61);
+        this.masterFaderLevel = this.buffer.readUInt8(62);
+        this.linkCueA = this.buffer.readUInt8(67);
+        this.linkCueB = this.buffer.readUInt8(68);
+        this.masterFilter = this.buffer.readUInt8(69);
+        this.masterCueA = this.buffer.readUInt8(71);
+        this.masterCueB = this.buffer.readUInt8(72);
+        this.masterIsolatorOn = this.buffer.readUInt8(74);
+        this.masterIsolatorHi = this.buffer.readUInt8(75);
+        this.masterIsolatorMid = this.buffer.readUInt8(76);
+        this.masterIsolatorLow = this.buffer.readUInt8(77);
+        this.filterHpf = this.buffer.readUInt8(79);
+        this.filterLpf = this.buffer.readUInt8(80);
+        this.filterResonance = this.buffer.readUInt8(81);
+        this.sendFxEffect = this.buffer.readUInt8(84);
+        this.sendFxExt1 = this.buffer.readUInt8(85);
+        this.sendFxExt2 = this.buffer.readUInt8(86);
+        this.sendFxMasterMix = this.buffer.readUInt8(87);
+        this.sendFxSizeFeedback = this.buffer.readUInt8(88);
+        this.sendFxTime = this.buffer.readUInt8(89);
+        this.sendFxHpf = this.buffer.readUInt8(90);
+        this.sendFxLevel = this.buffer.readUInt8(91);
+        this.channelFaderCurve = this.buffer.readUInt8(97);
+        this.crossfaderCurve = this.buffer.readUInt8(98);
+        this.crossfader = this.buffer.readUInt8(99);
+        this.beatFxOn = this.buffer.readUInt8(100);
+        this.beatFxLevelDepth = this.buffer.readUInt8(101);
+        this.beatFxChannelSelect = this.buffer.readUInt8(102);
+        this.beatFxSelect = this.buffer.readUInt8(103);
+        this.beatFxFreqHi = this.buffer.readUInt8(104);
+        this.beatFxFreqMid = this.buffer.readUInt8(105);
+        this.beatFxFreqLow = this.buffer.readUInt8(106);
+
+        for (let n = 0; n < TCNetDataPacketMixer.CHANNEL_COUNT; n++) {
+            this.channels[n] = new TCNetMixerChannel();
+            this.channels[n].read(this.buffer, 125 + n * TCNetMixerChannel.SIZE);
+        }
+    }
+    write(): void {
+        assert(Buffer.from(this.mixerName, "ascii").length <= 16);
+        super.write();
+
+        this.buffer.writeUInt8(this.mixerId, 26);
+        this.buffer.writeUInt8(this.mixerType, 27);
+        this.buffer.write(this.mixerName.padEnd(16, "\x00"), 30, "ascii");
+        this.buffer.writeUInt8(this.micEqHi, 59);
+        this.buffer.writeUInt8(this.micEqLow, 60);
+        this.buffer.writeUInt8(this.masterAudioLevel, 61);
+        this.buffer.writeUInt8(this.masterFaderLevel, 62);
+        this.buffer.writeUInt8(this.linkCueA, 67);
+        this.buffer.writeUInt8(this.linkCueB, 68);
+        this.buffer.writeUInt8(this.masterFilter, 69);
+        this.buffer.writeUInt8(this.masterCueA, 71);
+        this.buffer.writeUInt8(this.masterCueB, 72);
+        this.buffer.writeUInt8(this.masterIsolatorOn, 74);
+        this.buffer.writeUInt8(this.masterIsolatorHi, 75);
+        this.buffer.writeUInt8(this.masterIsolatorMid, 76);
+        this.buffer.writeUInt8(this.masterIsolatorLow, 77);
+        this.buffer.writeUInt8(this.filterHpf, 79);
+        this.buffer.writeUInt8(this.filterLpf, 80);
+        this.buffer.writeUInt8(this.filterResonance, 81);
+        this.buffer.writeUInt8(this.sendFxEffect, 84);
+        this.buffer.writeUInt8(this.sendFxExt1, 85);
+        this.buffer.writeUInt8(this.sendFxExt2, 86);
+        this.buffer.writeUInt8(this.sendFxMasterMix, 87);
+        this.buffer.writeUInt8(this.sendFxSizeFeedback, 88);
+        this.buffer.writeUInt8(this.sendFxTime, 89);
+        this.buffer.writeUInt8(this.sendFxHpf, 90);
+        this.buffer.writeUInt8(this.sendFxLevel, 91);
+        this.buffer.writeUInt8(this.channelFaderCurve, 97);
+        this.buffer.writeUInt8(this.crossfaderCurve, 98);
+        this.buffer.writeUInt8(this.crossfader, 99);
+        this.buffer.writeUInt8(this.beatFxOn, 100);
+        this.buffer.writeUInt8(this.beatFxLevelDepth, 101);
+        this.buffer.writeUInt8(this.beatFxChannelSelect, 102);
+        this.buffer.writeUInt8(this.beatFxSelect, 103);
+        this.buffer.writeUInt8(this.beatFxFreqHi, 104);
+        this.buffer.writeUInt8(this.beatFxFreqMid, 105);
+        this.buffer.writeUInt8(this.beatFxFreqLow, 106);
+
+        for (let n = 0; n < TCNetDataPacketMixer.CHANNEL_COUNT; n++) {
+            this.channels[n].write(this.buffer, 125 + n * TCNetMixerChannel.SIZE);
+        }
+    }
+    length(): number {
+        return 270;
+    }
+}
+
 export interface Constructable {
     new (...args: any[]): any;
 }
@@ -386,24 +1088,90 @@ export const TCNetPackets: Record<TCNetMessageType, Constructable | null> = {
     [TCNetMessageType.OptIn]: TCNetOptInPacket,
     [TCNetMessageType.OptOut]: TCNetOptOutPacket,
     [TCNetMessageType.Status]: TCNetStatusPacket,
-    [TCNetMessageType.TimeSync]: null, // not yet implemented
-    [TCNetMessageType.Error]: null, // not yet implemented
+    [TCNetMessageType.TimeSync]: TCNetTimeSyncPacket,
+    [TCNetMessageType.Error]: TCNetErrorPacket,
     [TCNetMessageType.Request]: TCNetRequestPacket,
-    [TCNetMessageType.ApplicationData]: null, // not yet implemented
-    [TCNetMessageType.Control]: null, // not yet implemented
-    [TCNetMessageType.Text]: null, // not yet implemented
-    [TCNetMessageType.Keyboard]: null, // not yet implemented
+    [TCNetMessageType.ApplicationData]: TCNetApplicationDataPacket,
+    [TCNetMessageType.Control]: TCNetControlPacket,
+    [TCNetMessageType.Text]: TCNetTextPacket,
+    [TCNetMessageType.Keyboard]: TCNetKeyboardPacket,
     [TCNetMessageType.Data]: TCNetDataPacket,
-    [TCNetMessageType.File]: null, // not yet implemented
+    [TCNetMessageType.File]: TCNetFilePacket,
     [TCNetMessageType.Time]: TCNetTimePacket,
 };
 
 export const TCNetDataPackets: Record<TCNetDataPacketType, typeof TCNetDataPacket | null> = {
     [TCNetDataPacketType.MetricsData]: TCNetDataPacketMetrics,
     [TCNetDataPacketType.MetaData]: TCNetDataPacketMetadata,
-    [TCNetDataPacketType.BeatGridData]: null, // not yet implemented
-    [TCNetDataPacketType.CUEData]: null, // not yet implemented
-    [TCNetDataPacketType.SmallWaveFormData]: null, // not yet implemented
-    [TCNetDataPacketType.BigWaveFormData]: null, // not yet implemented
-    [TCNetDataPacketType.MixerData]: null, // not yet implemented
+    [TCNetDataPacketType.BeatGridData]: TCNetDataPacketBeatGrid,
+    [TCNetDataPacketType.CUEData]: TCNetDataPacketCUE,
+    [TCNetDataPacketType.SmallWaveFormData]: TCNetDataPacketSmallWaveForm,
+    [TCNetDataPacketType.BigWaveFormData]: TCNetDataPacketBigWaveForm,
+    [TCNetDataPacketType.LowResArtworkFile]: TCNetFilePacket,
+    [TCNetDataPacketType.MixerData]: TCNetDataPacketMixer,
 };
+
+/**
+ * Checks whether a datagram has the length read by a packet class
+ * @param packet instance of the packet class
+ * @param length length of the datagram
+ * @returns true if the packet class can read the datagram
+ */
+export function fitsPacket(packet: TCNetPacket, length: number): boolean {
+    if (packet instanceof TCNetDataPacketMultiPart || packet.length() === -1) {
+        // Variable length, at least the fields before the payload are read
+        return length >= (packet.constructor === TCNetDataPacket ? 26 : TCNetDataPacketMultiPart.DATA_OFFSET);
+    }
+    return packet.length() === length;
+}
+
+/**
+ * Decodes a datagram with the packet classes
+ * @param msg datagram buffer
+ * @returns the decoded packet or null if the datagram has no header, an unknown message type or the wrong length
+ */
+export function decodePacket(msg: Buffer): TCNetPacket | null {
+    if (msg.length < 24) {
+        return null;
+    }
+
+    const header = new TCNetManagementHeader(msg);
+    header.read();
+
+    const packetClass = TCNetPackets[header.messageType];
+    if (!packetClass) {
+        return null;
+    }
+
+    const packet: TCNetPacket = new packetClass();
+    if (!fitsPacket(packet, msg.length)) {
+        return null;
+    }
+
+    packet.buffer = msg;
+    packet.header = header;
+    packet.read();
+    return packet;
+}
+
+/**
+ * Decodes a Data or File packet with the class of its data type
+ * @param packet decoded Data or File packet
+ * @returns the decoded data packet or null if the data type is unknown or the datagram has the wrong length
+ */
+export function decodeDataPacket(packet: TCNetDataPacket): TCNetDataPacket | null {
+    const dataPacketClass = TCNetDataPackets[packet.dataType];
+    if (!dataPacketClass) {
+        return null;
+    }
+
+    const dataPacket = new dataPacketClass();
+    if (!fitsPacket(dataPacket, packet.buffer.length)) {
+        return null;
+    }
+
+    dataPacket.buffer = packet.buffer;
+    dataPacket.header = packet.header;
+    dataPacket.read();
+    return dataPacket;
+}
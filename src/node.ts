@@ -0,0 +1,144 @@
+import EventEmitter = require("events");
+import * as nw from "./network";
+import { TCNetConfiguration } from "./tcnet";
+import { TCNetTransport, TCNetSocketType } from "./transport";
+import { interfaceAddress, timestamp } from "./utils";
+
+/**
+ * Plumbing shared by all nodes taking part in a TCNet network: decoding received datagrams, filling the management
+ * header of sent packets and announcing the node
+ */
+export abstract class TCNetEndpoint<C extends TCNetConfiguration = TCNetConfiguration> extends EventEmitter {
+    protected config: C;
+    protected transport: TCNetTransport | null = null;
+    private nodeType: nw.NodeType;
+    private seq = 0;
+    private uptime = 0;
+
+    /**
+     *
+     * @param config configuration for TCNet access
+     * @param nodeType type of this node sent in every header
+     */
+    constructor(config: C, nodeType: nw.NodeType) {
+        super();
+        this.config = config;
+        this.nodeType = nodeType;
+
+        if (this.config.broadcastInterface && this.config.broadcastAddress == "255.255.255.255") {
+            this.config.broadcastAddress = interfaceAddress(this.config.broadcastInterface);
+        }
+    }
+
+    /**
+     * Logs a diagnostic message if debugging is enabled
+     * @param message message to log
+     * @param args additional values to log
+     */
+    public debug(message: string, ...args: unknown[]): void {
+        if (this.config.debug) console.log(message, ...args);
+    }
+
+    /**
+     * Parse a received datagram
+     * @param msg datagram buffer
+     * @returns the parsed packet or null if the datagram cannot be decoded
+     */
+    protected parsePacket(msg: Buffer): nw.TCNetPacket | null {
+        const packet = nw.decodePacket(msg);
+        if (!packet) {
+            this.debug(
+                `Ignoring datagram of ${msg.length} bytes (message type: ${msg.length >= 24 ? msg.readUInt8(7) : "-"})`,
+            );
+        }
+        return packet;
+    }
+
+    /**
+     * Checks if a packet was sent by ourselves and looped back by the network
+     * @param packet received packet
+     * @returns true if the packet has been sent by this node
+     */
+    protected isOwnPacket(packet: nw.TCNetPacket): boolean {
+        return packet.header.nodeId == this.config.nodeId && packet.header.nodeName == this.config.nodeName;
+    }
+
+    /**
+     * Fill headers of a packet
+     *
+     * @param packet Packet that needs header information
+     */
+    private fillHeader(packet: nw.TCNetPacket): void {
+        packet.header = new nw.TCNetManagementHeader(packet.buffer);
+
+        packet.header.minorVersion = 5;
+        packet.header.nodeId = this.config.nodeId;
+        packet.header.messageType = packet.type();
+        packet.header.nodeName = this.config.nodeName;
+        packet.header.seq = this.seq = (this.seq + 1) % 255;
+        packet.header.nodeType = this.nodeType;
+        packet.header.nodeOptions = 0;
+        packet.header.timestamp = timestamp();
+    }
+
+    /**
+     * Generalized method to send packets to a given destination on a given socket
+     *
+     * @param packet Packet to send
+     * @param socket Socket to send on
+     * @param port Destination Port
+     * @param address Destination Address
+     */
+    protected async sendPacket(
+        packet: nw.TCNetPacket,
+        socket: TCNetSocketType,
+        port: number,
+        address: string,
+    ): Promise<void> {
+        if (!this.transport) {
+            throw new Error("Not connected");
+        }
+
+        const buffer = Buffer.alloc(packet.length());
+        packet.buffer = buffer;
+        this.fillHeader(packet);
+
+        packet.header.write();
+        packet.write();
+        await this.transport.send(socket, buffer, port, address);
+    }
+
+    /**
+     * Creates the OptIn packet announcing this node
+     * @param nodeCount number of nodes known to this node
+     * @returns OptIn packet
+     */
+    protected createOptInPacket(nodeCount: number): nw.TCNetOptInPacket {
+        const optInPacket = new nw.TCNetOptInPacket();
+        optInPacket.nodeCount = nodeCount;
+        optInPacket.nodeListenerPort = this.config.unicastPort;
+        optInPacket.uptime = this.uptime;
+        optInPacket.vendorName = this.config.vendorName;
+        optInPacket.appName = this.config.appName;
+        optInPacket.majorVersion = 1;
+        optInPacket.minorVersion = 1;
+        optInPacket.bugVersion = 1;
+        return optInPacket;
+    }
+
+    /**
+     * Creates the OptIn packet of a periodic announcement and advances the uptime by one second
+     * @param nodeCount number of nodes known to this node
+     * @returns OptIn packet
+     */
+    protected createAnnouncement(nodeCount: number): nw.TCNetOptInPacket {
+        const optInPacket = this.createOptInPacket(nodeCount);
+        this.uptime++;
+
+        // According to the guide the uptime shall roll over after 12 hours
+        if (this.uptime >= 12 * 60 * 60) {
+            this.uptime = 0;
+        }
+        return optInPacket;
+    }
+}
@@ -0,0 +1,426 @@
+import { promises } from "fs";
+import * as nw from "./network";
+import { TCNetCaptureFrame } from "./capture";
+import { TCNET_BROADCAST_PORT, TCNET_TIMESTAMP_PORT } from "./tcnet";
+
+const PCAP_MAGIC_MICROS = 0xa1b2c3d4;
+const PCAP_MAGIC_NANOS = 0xa1b23c4d;
+const PCAPNG_SECTION_HEADER = 0x0a0d0d0a;
+const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+const PCAPNG_INTERFACE_DESCRIPTION = 1;
+const PCAPNG_ENHANCED_PACKET = 6;
+
+enum LinkType {
+    Null = 0,
+    Ethernet = 1,
+    Raw = 101,
+    LinuxSLL = 113,
+    LinuxSLL2 = 276,
+}
+
+/**
+ * Length of the link layer header which is read for each link type
+ */
+const LINK_HEADER_LENGTHS: Record<LinkType, number> = {
+    [LinkType.Null]: 4,
+    [LinkType.Ethernet]: 14,
+    [LinkType.Raw]: 0,
+    [LinkType.LinuxSLL]: 16,
+    [LinkType.LinuxSLL2]: 20,
+};
+
+export type PcapOptions = {
+    /**
+     * Ports which are treated as unicast ports of nodes, by default all listener ports announced in the capture
+     */
+    unicastPorts?: number[];
+};
+
+/**
+ * UDP datagram extracted from a capture
+ */
+type UDPDatagram = {
+    time: number;
+    address: string;
+    sourcePort: number;
+    destinationPort: number;
+    data: Buffer;
+};
+
+/**
+ * IPv4 packet which is being reassembled from fragments
+ */
+type IPv4Fragments = {
+    parts: Map<number, Buffer>;
+    totalLength: number | null;
+};
+
+/**
+ * Reads TCNet traffic from a pcap or pcapng file (e.g. captured with Wireshark)
+ *
+ * The returned frames can be replayed into a client with TCNetReplayer.
+ *
+ * @param path file to read
+ * @param options options for detecting TCNet traffic
+ * @returns all TCNet datagrams of the capture
+ */
+export async function readPcap(path: string, options?: PcapOptions): Promise<TCNetCaptureFrame[]> {
+    const buffer = await promises.readFile(path);
+    const datagrams = new PcapReader(buffer).read();
+
+    const unicastPorts = new Set(options?.unicastPorts || learnListenerPorts(datagrams));
+    const frames: TCNetCaptureFrame[] = [];
+    for (const datagram of datagrams) {
+        const socket =
+            datagram.destinationPort == TCNET_BROADCAST_PORT
+                ? "broadcast"
+                : datagram.destinationPort == TCNET_TIMESTAMP_PORT
+                ? "timestamp"
+                : unicastPorts.has(datagram.destinationPort)
+                ? "unicast"
+                : null;
+
+        if (socket === null || !isTCNet(datagram.data)) {
+            continue;
+        }
+
+        const header = new nw.TCNetManagementHeader(datagram.data);
+        header.read();
+        frames.push({
+            time: datagram.time,
+            socket,
+            address: datagram.address,
+            port: datagram.sourcePort,
+            messageType: header.messageType,
+            data: datagram.data,
+        });
+    }
+
+    return frames;
+}
+
+/**
+ * Checks for the magic header of TCNet
+ * @param data UDP payload
+ * @returns true if the payload is a TCNet packet
+ */
+function isTCNet(data: Buffer): boolean {
+    return (
+        data.length >= 24 &&
+        data.readUInt8(2) == nw.TCNetManagementHeader.MAJOR_VERSION &&
+        data.slice(4, 7).toString("ascii") == nw.TCNetManagementHeader.MAGIC_HEADER
+    );
+}
+
+/**
+ * Collects the listener ports announced in OptIn packets
+ * @param datagrams all datagrams of the capture
+ * @returns announced listener ports
+ */
+function learnListenerPorts(datagrams: UDPDatagram[]): number[] {
+    const ports: number[] = [];
+    for (const datagram of datagrams) {
+        if (datagram.destinationPort != TCNET_BROADCAST_PORT || !isTCNet(datagram.data)) {
+            continue;
+        }
+
+        // Truncated OptIn packets are skipped, the port is learned from the next announcement
+        const packet = nw.decodePacket(datagram.data);
+        if (packet instanceof nw.TCNetOptInPacket) {
+            ports.push(packet.nodeListenerPort);
+        }
+    }
+    return ports;
+}
+
+/**
+ * Extracts UDP datagrams from pcap and pcapng files
+ */
+class PcapReader {
+    private buffer: Buffer;
+    private littleEndian = true;
+    private datagrams: UDPDatagram[] = [];
+    private fragments: Map<string, IPv4Fragments> = new Map();
+
+    /**
+     *
+     * @param buffer content of the capture file
+     */
+    constructor(buffer: Buffer) {
+        this.buffer = buffer;
+    }
+
+    /**
+     * Reads all UDP datagrams of the capture
+     * @returns UDP datagrams
+     */
+    read(): UDPDatagram[] {
+        if (this.buffer.length < 24) {
+            throw new Error("File is too short to be a capture");
+        }
+
+        if (this.buffer.readUInt32LE(0) == PCAPNG_SECTION_HEADER) {
+            this.readPcapng();
+        } else {
+            this.readPcap();
+        }
+
+        return this.datagrams;
+    }
+
+    /**
+     * Reads a classic pcap file
+     */
+    private readPcap(): void {
+        const magic = this.buffer.readUInt32LE(0);
+        const swappedMagic = this.buffer.readUInt32BE(0);
+        let nanos: boolean;
+
+        if (magic == PCAP_MAGIC_MICROS || magic == PCAP_MAGIC_NANOS) {
+            this.littleEndian = true;
+            nanos = magic == PCAP_MAGIC_NANOS;
+        } else if (swappedMagic == PCAP_MAGIC_MICROS || swappedMagic == PCAP_MAGIC_NANOS) {
+            this.littleEndian = false;
+            nanos = swappedMagic == PCAP_MAGIC_NANOS;
+        } else {
+            throw new Error("Unknown capture file format");
+        }
+
+        const linkType = this.uint32(20);
+        let offset = 24;
+        while (offset + 16 <= this.buffer.length) {
+            const seconds = this.uint32(offset);
+            const fraction = this.uint32(offset + 4);
+            const capturedLength = this.uint32(offset + 8);
+            const time = seconds * 1000 + (nanos ? fraction / 1000000 : fraction / 1000);
+
+            this.readLinkLayer(linkType, this.buffer.slice(offset + 16, offset + 16 + capturedLength), time);
+            offset += 16 + capturedLength;
+        }
+    }
+
+    /**
+     * Reads a pcapng file
+     */
+    private readPcapng(): void {
+        const interfaces: { linkType: number; resolution: number }[] = [];
+        let offset = 0;
+
+        while (offset + 12 <= this.buffer.length) {
+            const blockType = this.buffer.readUInt32LE(offset);
+
+            if (blockType == PCAPNG_SECTION_HEADER) {
+                // Byte order is defined per section, interfaces are numbered per section
+                const byteOrder = this.buffer.readUInt32LE(offset + 8);
+                this.littleEndian = byteOrder == PCAPNG_BYTE_ORDER_MAGIC;
+                interfaces.length = 0;
+            }
+
+            const blockLength = this.uint32(offset + 4);
+            if (blockLength < 12 || offset + blockLength > this.buffer.length) {
+                break;
+            }
+
+            if (blockType != PCAPNG_SECTION_HEADER) {
+                const type = this.uint32(offset);
+                if (type == PCAPNG_INTERFACE_DESCRIPTION) {
+                    interfaces.push({
+                        linkType: this.uint16(offset + 8),
+                        resolution: this.readTimestampResolution(offset + 16, offset + blockLength - 4),
+                    });
+                } else if (type == PCAPNG_ENHANCED_PACKET && blockLength >= 32) {
+                    const intf = interfaces[this.uint32(offset + 8)];
+                    const timestamp = this.uint32(offset + 12) * 0x100000000 + this.uint32(offset + 16);
+                    const capturedLength = this.uint32(offset + 20);
+
+                    if (intf) {
+                        this.readLinkLayer(
+                            intf.linkType,
+                            this.buffer.slice(offset + 28, offset + 28 + capturedLength),
+                            timestamp * intf.resolution * 1000,
+                        );
+                    }
+                }
+            }
+
+            offset += blockLength;
+        }
+    }
+
+    /**
+     * Reads the if_tsresol option of an interface description block
+     * @param offset start of the options
+     * @param end end of the options
+     * @returns resolution of timestamps in seconds
+     */
+    private readTimestampResolution(offset: number, end: number): number {
+        while (offset + 4 <= end) {
+            const code = this.uint16(offset);
+            const length = this.uint16(offset + 2);
+
+            if (code == 0) {
+                break;
+            }
+            if (code == 9 && length >= 1) {
+                const value = this.buffer.readUInt8(offset + 4);
+                return value & 0x80 ? Math.pow(2, -(value & 0x7f)) : Math.pow(10, -value);
+            }
+
+            // Options are padded to 32 bits
+            offset += 4 + Math.ceil(length / 4) * 4;
+        }
+
+        return 0.000001;
+    }
+
+    /**
+     * Strips the link layer header of a captured packet
+     * @param linkType link layer type of the interface
+     * @param data captured packet
+     * @param time capture time in milliseconds
+     */
+    private readLinkLayer(linkType: number, data: Buffer, time: number): void {
+        // Frames truncated by the snapshot length are skipped
+        if (!(linkType in LINK_HEADER_LENGTHS) || data.length < LINK_HEADER_LENGTHS[<LinkType>linkType]) {
+            return;
+        }
+
+        if (linkType == LinkType.Ethernet) {
+            let offset = 12;
+            let etherType = data.readUInt16BE(offset);
+            // Skip VLAN tags
+            while (etherType == 0x8100 && offset + 6 <= data.length) {
+                offset += 4;
+                etherType = data.readUInt16BE(offset);
+            }
+            if (etherType == 0x0800) {
+                this.readIPv4(data.slice(offset + 2), time);
+            }
+        } else if (linkType == LinkType.LinuxSLL) {
+            if (data.readUInt16BE(14) == 0x0800) {
+                this.readIPv4(data.slice(16), time);
+            }
+        } else if (linkType == LinkType.LinuxSLL2) {
+            if (data.readUInt16BE(0) == 0x0800) {
+                this.readIPv4(data.slice(20), time);
+            }
+        } else if (linkType == LinkType.Null) {
+            // Address family in host byte order of the capturing machine, AF_INET is 2 everywhere
+            if (data.readUInt32LE(0) == 2 || data.readUInt32BE(0) == 2) {
+                this.readIPv4(data.slice(4), time);
+            }
+        } else if (linkType == LinkType.Raw) {
+            this.readIPv4(data, time);
+        }
+    }
+
+    /**
+     * Reads an IPv4 packet, reassembling fragmented packets
+     * @param data IPv4 packet
+     * @param time capture time in milliseconds
+     */
+    private readIPv4(data: Buffer, time: number): void {
+        if (data.length < 20 || data.readUInt8(0) >> 4 != 4) {
+            return;
+        }
+
+        const headerLength = (data.readUInt8(0) & 0x0f) * 4;
+        const totalLength = Math.min(data.readUInt16BE(2), data.length);
+        const flags = data.readUInt16BE(6);
+        const protocol = data.readUInt8(9);
+        const address = [...data.slice(12, 16)].join(".");
+        let payload = data.slice(headerLength, totalLength);
+
+        if (protocol != 17) {
+            return;
+        }
+
+        const moreFragments = (flags & 0x2000) != 0;
+        const fragmentOffset = (flags & 0x1fff) * 8;
+        if (moreFragments || fragmentOffset > 0) {
+            const key = `${address}-${[...data.slice(16, 20)].join(".")}-${data.readUInt16BE(4)}`;
+            const reassembled = this.reassemble(key, fragmentOffset, payload, !moreFragments);
+            if (!reassembled) {
+                return;
+            }
+            payload = reassembled;
+        }
+
+        this.readUDP(payload, address, time);
+    }
+
+    /**
+     * Collects fragments of an IPv4 packet
+     * @param key identification of the packet
+     * @param offset offset of the fragment
+     * @param payload payload of the fragment
+     * @param last true if this is the last fragment
+     * @returns the reassembled payload once all fragments were received, otherwise null
+     */
+    private reassemble(key: string, offset: number, payload: Buffer, last: boolean): Buffer | null {
+        let fragments = this.fragments.get(key);
+        if (!fragments) {
+            fragments = { parts: new Map(), totalLength: null };
+            this.fragments.set(key, fragments);
+        }
+
+        fragments.parts.set(offset, payload);
+        if (last) {
+            fragments.totalLength = offset + payload.length;
+        }
+
+        if (fragments.totalLength === null) {
+            return null;
+        }
+
+        const received = [...fragments.parts.values()].reduce((sum, el) => sum + el.length, 0);
+        if (received < fragments.totalLength) {
+            return null;
+        }
+
+        this.fragments.delete(key);
+        const result = Buffer.alloc(fragments.totalLength);
+        for (const [partOffset, part] of fragments.parts) {
+            part.copy(result, partOffset);
+        }
+        return result;
+    }
+
+    /**
+     * Reads an UDP datagram
+     * @param data UDP datagram
+     * @param address source address
+     * @param time capture time in milliseconds
+     */
+    private readUDP(data: Buffer, address: string, time: number): void {
+        if (data.length < 8) {
+            return;
+        }
+
+        this.datagrams.push({
+            time,
+            address,
+            sourcePort: data.readUInt16BE(0),
+            destinationPort: data.readUInt16BE(2),
+            data: data.slice(8, Math.min(data.readUInt16BE(4), data.length)),
+        });
+    }
+
+    /**
+     * Reads an unsigned 16 bit integer in the byte order of the capture
+     * @param offset offset in the file
+     * @returns value
+     */
+    private uint16(offset: number): number {
+        return this.littleEndian ? this.buffer.readUInt16LE(offset) : this.buffer.readUInt16BE(offset);
+    }
+
+    /**
+     * Reads an unsigned 32 bit integer in the byte order of the capture
+     * @param offset offset in the file
+     * @returns value
+     */
+    private uint32(offset: number): number {
+        return this.littleEndian ? this.buffer.readUInt32LE(offset) : this.buffer.readUInt32BE(offset);
+    }
+}
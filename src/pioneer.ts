@@ -7,29 +7,74 @@ import {
     TCNetLayerStatus,
     TCNetDataPacketMetrics,
     TCNetLayerSyncMaster,
+    TCNetDataPacketBeatGrid,
+    TCNetBeatType,
+    TCNetDataPacketCUE,
+    TCNetCueType,
+    TCNetDataPacketWaveForm,
+    TCNetDataPacket,
+    TCNetDataPacketMixer,
+    TCNetTimePacket,
+    TCNetTimecodeState,
+    TCNetFilePacket,
 } from "./network";
 import EventEmitter = require("events");
 import { assert } from "console";
 
+/**
+ * Events emitted for changed fields of the layer state
+ */
+const LAYER_EVENTS: Record<LayerStateField, string> = {
+    name: "changedname",
+    trackID: "changedtrack",
+    status: "changedstatus",
+    currentTime: "changedposition",
+    totalTime: "changedlength",
+    beatMarker: "changedbeatmarker",
+    beatNumber: "changedbeatnumber",
+    bpm: "changedbpm",
+    speed: "changedspeed",
+    pitchBend: "changedpitch",
+    syncMaster: "changedsyncmaster",
+    timecode: "changedtimecode",
+};
+
+/**
+ * Configuration of the Pioneer DJ client, extending the TCNet configuration with the track cache
+ */
+export class PioneerDJConfiguration extends TCNetConfiguration {
+    trackCacheSize = 32;
+    prefetchTracks = true;
+    prefetchBeatGrid = false;
+    prefetchCues = false;
+    prefetchArtwork = false;
+}
+
 /**
  * High level implementation of TCNet for PioneerDJ equipment
  *
  * Currently only supports status changes and querying of track IDs
  */
 export class PioneerDJTCClient extends EventEmitter {
+    private config: PioneerDJConfiguration;
     private tcnet: TCNetClient;
     private _state: PioneerDJState = new PioneerDJState();
+    private _mixer: PioneerDJMixerState = new PioneerDJMixerState();
+    private metricsInterval: NodeJS.Timeout | null = null;
+    private trackCache: PioneerDJTrackCache;
 
     /**
      *
      * @param config configuration for TCNet access
      */
-    constructor(config?: TCNetConfiguration) {
+    constructor(config?: TCNetConfiguration | PioneerDJConfiguration) {
         super();
 
-        if (!config) config = new TCNetConfiguration();
+        this.config =
+            config instanceof PioneerDJConfiguration ? config : Object.assign(new PioneerDJConfiguration(), config);
 
-        this.tcnet = new TCNetClient(config);
+        this.tcnet = new TCNetClient(this.config);
+        this.trackCache = new PioneerDJTrackCache(this.config.trackCacheSize);
     }
 
     /**
@@ -37,13 +82,26 @@ export class PioneerDJTCClient extends EventEmitter {
      */
     async connect(): Promise<void> {
         this.tcnet.on("broadcast", this.receiveBroadcast.bind(this));
+        this.tcnet.on("time", this.receiveTime.bind(this));
+        this.tcnet.on("data", this.receiveData.bind(this));
         await this.tcnet.connect();
     }
 
+    /**
+     * Attach to the underlying client without connecting to a network, e.g. to replay recorded traffic
+     */
+    connectOffline(): void {
+        this.tcnet.on("broadcast", this.receiveBroadcast.bind(this));
+        this.tcnet.on("time", this.receiveTime.bind(this));
+        this.tcnet.on("data", this.receiveData.bind(this));
+        this.tcnet.connectOffline();
+    }
+
     /**
      * Disconnects from TCNet network
      */
     disconnect(): void {
+        this.stopMetricsPolling();
         this.tcnet.disconnect();
         this.removeAllListeners();
     }
@@ -56,19 +114,118 @@ export class PioneerDJTCClient extends EventEmitter {
     private receiveBroadcast(packet: TCNetPacket): void {
         if (packet instanceof TCNetStatusPacket) {
             // First update the current state - handlers can therefore savely query the state.
-            const changedTracks = this._state.updateTrackIDs(packet.trackID);
-            const changedStatus = this._state.updateStatus(packet.layerStatus);
+            this.emitLayerChanges(this._state.updateStatus(packet));
+        }
+    }
+
+    /**
+     * Receive a time packet from the underlying TCNet implementation
+     *
+     * @param packet received time packet
+     */
+    private receiveTime(packet: TCNetTimePacket): void {
+        this.emitLayerChanges(this._state.updateTime(packet));
+    }
 
-            changedTracks.forEach((el) => {
-                this.emit("changedtrack", el);
+    /**
+     * Emits change events for changed fields of the layer state
+     *
+     * Emits `changed...` events with the layer for every changed field, `layerchange` with the layer and the changed
+     * fields for every changed layer and `statuschange` once if the track or status of any layer changed.
+     *
+     * @param changes changed fields, indexed by layer - 1
+     */
+    private emitLayerChanges(changes: LayerStateField[][]): void {
+        let statusChanged = false;
+
+        changes.forEach((fields, n) => {
+            fields.forEach((el) => {
+                this.emit(LAYER_EVENTS[el], n + 1);
             });
-            changedStatus.forEach((el) => {
-                this.emit("changedstatus", el);
+            if (fields.length > 0) {
+                this.emit("layerchange", n + 1, fields);
+            }
+            if (fields.includes("trackID") || fields.includes("status")) {
+                statusChanged = true;
+            }
+            if (fields.includes("trackID") && this.config.prefetchTracks) {
+                this.prefetchTrack(n + 1);
+            }
+        });
+
+        // Emit general status change when we see changes in track or status
+        if (statusChanged) {
+            this.emit("statuschange");
+        }
+    }
+
+    /**
+     * Loads a track which was loaded onto a layer in the background and emits `trackloaded` with the layer and the
+     * cached track once it is available
+     *
+     * @param layer layer which changed its track
+     */
+    private prefetchTrack(layer: LayerIndex): void {
+        const trackID = this._state.trackID(layer);
+        if (trackID <= 0) {
+            return;
+        }
+
+        this.track(layer)
+            .then((track) => {
+                // Only announce the track if it is still loaded on the layer
+                if (this._state.trackID(layer) === track.trackID) {
+                    this.emit("trackloaded", layer, track);
+                }
+            })
+            .catch((err) => {
+                this.tcnet.debug(`Prefetching track ${trackID} on layer ${layer} failed`, err);
             });
+    }
 
-            // Emit general status change when we see changes in track or status
-            if (changedTracks.length > 0 || changedStatus.length > 0) {
-                this.emit("statuschange");
+    /**
+     * Receive a data packet from the underlying TCNet implementation
+     *
+     * @param packet received data packet
+     */
+    private receiveData(packet: TCNetDataPacket): void {
+        if (packet instanceof TCNetDataPacketMetrics) {
+            const changes: LayerStateField[][] = new Array(8).fill([]);
+            changes[packet.layer - 1] = this._state.updateMetrics(packet);
+            this.emitLayerChanges(changes);
+        } else if (packet instanceof TCNetDataPacketMixer) {
+            // First update the current state - handlers can therefore savely query the state.
+            const changes = this._mixer.update(packet);
+
+            changes.fader.forEach((el) => {
+                this.emit("changedfader", el);
+            });
+            changes.eq.forEach((el) => {
+                this.emit("changedeq", el);
+            });
+            changes.filter.forEach((el) => {
+                this.emit("changedfilter", el);
+            });
+            changes.cue.forEach((el) => {
+                this.emit("changedcue", el);
+            });
+            if (changes.crossfader) {
+                this.emit("changedcrossfader");
+            }
+            if (changes.beatFx) {
+                this.emit("changedbeatfx");
+            }
+
+            // Emit general mixer change when we see changes in any of the fields
+            if (
+                changes.fader.length > 0 ||
+                changes.eq.length > 0 ||
+                changes.filter.length > 0 ||
+                changes.cue.length > 0 ||
+                changes.crossfader ||
+                changes.beatFx
+            ) {
+                this.emit("mixerchange");
             }
         }
     }
@@ -80,6 +237,38 @@ export class PioneerDJTCClient extends EventEmitter {
         return this._state;
     }
 
+    /**
+     * Periodically request metrics of all layers with a loaded track, the layer state is updated with the responses
+     * @param interval interval in milliseconds
+     */
+    startMetricsPolling(interval = 1000): void {
+        this.stopMetricsPolling();
+        this.metricsInterval = setInterval(() => {
+            for (let n = 1; n <= 8; n++) {
+                if (this._state.trackID(n) > 0) {
+                    this.layerMetrics(n).catch(() => undefined);
+                }
+            }
+        }, interval);
+    }
+
+    /**
+     * Stops polling of metrics
+     */
+    stopMetricsPolling(): void {
+        if (this.metricsInterval) {
+            clearInterval(this.metricsInterval);
+            this.metricsInterval = null;
+        }
+    }
+
+    /**
+     * Access to current Pioneer DJ mixer state
+     */
+    mixer(): PioneerDJMixerState {
+        return this._mixer;
+    }
+
     /**
      * Access to underlying client
      */
@@ -88,14 +277,76 @@ export class PioneerDJTCClient extends EventEmitter {
     }
 
     /**
-     * Request track info of a specific layer
+     * Request track info of a specific layer, answered from the track cache if possible
      * @param layer layer to query
      * @returns track info of the layer
      */
     async trackInfo(layer: LayerIndex): Promise<TrackInfo> {
-        const response = <TCNetDataPacketMetadata>await this.client().requestData(TCNetDataPacketType.MetaData, layer);
+        return (await this.track(layer)).info;
+    }
+
+    /**
+     * Request all data of the track loaded on a specific layer, answered from the track cache if possible
+     *
+     * Concurrent calls for the same track share one request. Beat grid, cues and artwork are only requested if
+     * enabled in the configuration.
+     *
+     * @param layer layer to query
+     * @returns cached track of the layer
+     */
+    async track(layer: LayerIndex): Promise<CachedTrack> {
+        const trackID = this._state.trackID(layer);
+        if (trackID <= 0) {
+            // Track ID is not known yet, the response is cached by the track ID in the metadata
+            const track = await this.loadTrack(layer);
+            this.trackCache.set(track);
+            return track;
+        }
+
+        return this.trackCache.load(trackID, () => this.loadTrack(layer));
+    }
+
+    /**
+     * Get a track from the track cache without requesting it
+     * @param trackID track ID
+     * @returns cached track or null if the track is not cached
+     */
+    cachedTrack(trackID: number): CachedTrack | null {
+        return this.trackCache.get(trackID);
+    }
+
+    /**
+     * Clears the track cache
+     */
+    clearTrackCache(): void {
+        this.trackCache.clear();
+    }
+
+    /**
+     * Requests all data of the track loaded on a layer which is enabled in the configuration
+     * @param layer layer to query
+     * @returns track of the layer
+     */
+    private async loadTrack(layer: LayerIndex): Promise<CachedTrack> {
+        const [info, beatGrid, cues, artwork] = await Promise.all([
+            this.client().requestData(TCNetDataPacketType.MetaData, layer) as Promise<TCNetDataPacketMetadata>,
+            this.config.prefetchBeatGrid ? this.beatGrid(layer) : null,
+            this.config.prefetchCues ? this.cues(layer) : null,
+            // Not every track has artwork, the track is cached without it in that case
+            this.config.prefetchArtwork ? this.artwork(layer).catch(() => null) : null,
+        ]);
+
         return {
-            ...response,
+            trackID: info.trackID,
+            info: {
+                trackID: info.trackID,
+                trackArtist: info.trackArtist,
+                trackTitle: info.trackTitle,
+                trackKey: info.trackKey,
+            },
+            beatGrid,
+            cues,
+            artwork,
         };
     }
 
@@ -112,6 +363,135 @@ export class PioneerDJTCClient extends EventEmitter {
             ...response,
         };
     }
+
+    /**
+     * Request the beat grid of a specific layer
+     * @param layer layer to query
+     * @returns all beats of the track loaded on the layer
+     */
+    async beatGrid(layer: LayerIndex): Promise<BeatInfo[]> {
+        const response = <TCNetDataPacketBeatGrid>(
+            await this.client().requestData(TCNetDataPacketType.BeatGridData, layer)
+        );
+        return response.beats.map((el) => ({
+            ...el,
+        }));
+    }
+
+    /**
+     * Request loop and cue points of a specific layer
+     * @param layer layer to query
+     * @returns loop and cue points of the track loaded on the layer
+     */
+    async cues(layer: LayerIndex): Promise<CueInfo> {
+        const response = <TCNetDataPacketCUE>await this.client().requestData(TCNetDataPacketType.CUEData, layer);
+        return {
+            loopInTime: response.loopInTime,
+            loopOutTime: response.loopOutTime,
+            cues: response.cues
+                .map((el, idx) => ({
+                    index: idx + 1,
+                    type: el.type,
+                    inTime: el.inTime,
+                    outTime: el.outTime,
+                    color: {
+                        red: el.colorRed,
+                        green: el.colorGreen,
+                        blue: el.colorBlue,
+                    },
+                }))
+                .filter((el) => el.type !== TCNetCueType.Empty),
+        };
+    }
+
+    /**
+     * Request the artwork of the track loaded on a specific layer
+     * @param layer layer to query
+     * @returns artwork as JPEG
+     */
+    async artwork(layer: LayerIndex): Promise<Buffer> {
+        const response = <TCNetFilePacket>await this.client().requestData(TCNetDataPacketType.LowResArtworkFile, layer);
+        return response.content;
+    }
+
+    /**
+     * Request the current state of the mixer, the mixer state is updated with the response
+     * @returns the updated mixer state
+     */
+    async mixerData(): Promise<PioneerDJMixerState> {
+        await this.client().requestData(TCNetDataPacketType.MixerData, 1);
+        return this._mixer;
+    }
+
+    /**
+     * Send an arbitrary control command
+     * @param controlPath control command, e.g. "layer/1/stop"
+     */
+    async sendControl(controlPath: string): Promise<void> {
+        await this.client().sendControl(controlPath);
+    }
+
+    /**
+     * Start playback on a specific layer
+     * @param layer layer to control
+     */
+    async play(layer: LayerIndex): Promise<void> {
+        await this.client().sendControl(`layer/${layer}/play`);
+    }
+
+    /**
+     * Stop playback on a specific layer
+     * @param layer layer to control
+     */
+    async stop(layer: LayerIndex): Promise<void> {
+        await this.client().sendControl(`layer/${layer}/stop`);
+    }
+
+    /**
+     * Stop playback on all layers
+     *
+     * Every layer is stopped even if stopping another layer fails, failures are reported together afterwards.
+     */
+    async stopAll(): Promise<void> {
+        const layers = Object.values(LayerIndex).filter((el): el is LayerIndex => typeof el === "number");
+        const failures = await Promise.all(
+            layers.map((el) =>
+                this.stop(el).then(
+                    () => null,
+                    (err: Error) => `layer ${el}: ${err.message}`,
+                ),
+            ),
+        );
+
+        const failed = failures.filter((el): el is string => el !== null);
+        if (failed.length > 0) {
+            throw new Error(`Stopping ${failed.length} of ${layers.length} layers failed (${failed.join(", ")})`);
+        }
+    }
+
+    /**
+     * Move the playhead of a specific layer
+     * @param layer layer to control
+     * @param position new position in milliseconds
+     */
+    async setLayerPosition(layer: LayerIndex, position: number): Promise<void> {
+        await this.client().sendControl(`layer/${layer}/position=${Math.round(position)}`);
+    }
+
+    /**
+     * Request the waveform of a specific layer
+     * @param layer layer to query
+     * @param size "small" for the overview waveform, "big" for the detailed waveform
+     * @returns color and height of every bar of the waveform
+     */
+    async waveform(layer: LayerIndex, size: "small" | "big"): Promise<WaveFormInfo> {
+        const dataType = size === "small" ? TCNetDataPacketType.SmallWaveFormData : TCNetDataPacketType.BigWaveFormData;
+        const response = <TCNetDataPacketWaveForm>await this.client().requestData(dataType, layer);
+        return {
+            colors: response.colors,
+            heights: response.heights,
+        };
+    }
 }
 
 /**
@@ -144,10 +524,31 @@ export class LayerIndexUtil {
 
 /**
  * Tracking the state of the Pioneer DJ equipments
+ *
+ * Layer state is merged from Status, Time and Metrics packets, fields which have not been received yet are -1 or null.
  */
 class PioneerDJState {
-    private _trackID: number[] = new Array(8).fill(-1);
-    private _status: TCNetLayerStatus[] = new Array(8).fill(-1);
+    private _layers: LayerState[] = [];
+
+    constructor() {
+        for (let n = 1; n <= 8; n++) {
+            this._layers.push({
+                layer: n,
+                name: null,
+                trackID: -1,
+                status: -1,
+                currentTime: -1,
+                totalTime: -1,
+                beatMarker: -1,
+                beatNumber: -1,
+                bpm: -1,
+                speed: -1,
+                pitchBend: -1,
+                syncMaster: -1,
+                timecode: null,
+            });
+        }
+    }
 
     /**
      * Get track ID of layer
@@ -155,7 +556,7 @@ class PioneerDJState {
      * @returns track ID
      */
     trackID(idx: LayerIndex): number {
-        return this._trackID[idx - 1];
+        return this._layers[idx - 1].trackID;
     }
 
     /**
@@ -164,45 +565,366 @@ class PioneerDJState {
      * @returns status
      */
     status(idx: LayerIndex): TCNetLayerStatus {
-        return this._status[idx - 1];
+        return this._layers[idx - 1].status;
+    }
+
+    /**
+     * Get an immutable copy of the state of a layer
+     * @param idx layer
+     * @returns state of the layer
+     */
+    layer(idx: LayerIndex): Readonly<LayerState> {
+        const layer = this._layers[idx - 1];
+        return Object.freeze({
+            ...layer,
+            timecode: layer.timecode ? Object.freeze({ ...layer.timecode }) : null,
+        });
+    }
+
+    /**
+     * Get an immutable copy of the state of all layers
+     * @returns state of all layers, ordered by layer
+     */
+    snapshot(): ReadonlyArray<Readonly<LayerState>> {
+        return Object.freeze(this._layers.map((el) => this.layer(el.layer)));
+    }
+
+    /**
+     * Updates layers from a status packet
+     * @param packet status packet received from gear
+     * @returns Changed fields of every layer
+     */
+    updateStatus(packet: TCNetStatusPacket): LayerStateField[][] {
+        return this._layers.map((_el, n) =>
+            this.update(n + 1, {
+                name: packet.layerName[n],
+                trackID: packet.trackID[n],
+                status: packet.layerStatus[n],
+            }),
+        );
+    }
+
+    /**
+     * Updates layers from a time packet
+     * @param packet time packet received from gear
+     * @returns Changed fields of every layer
+     */
+    updateTime(packet: TCNetTimePacket): LayerStateField[][] {
+        return this._layers.map((_el, n) => {
+            const timecode = packet.layerTimecode[n];
+            return this.update(n + 1, {
+                currentTime: packet.layerCurrentTime[n],
+                totalTime: packet.layerTotalTime[n],
+                beatMarker: packet.layerBeatmarker[n],
+                status: packet.layerState[n],
+                timecode: {
+                    mode: timecode.mode,
+                    state: timecode.state,
+                    hours: timecode.hours,
+                    minutes: timecode.minutes,
+                    seconds: timecode.seconds,
+                    frames: timecode.frames,
+                },
+            });
+        });
     }
 
     /**
-     * Updates Track IDs
-     * @param trackIDs track IDs received from gear
-     * @returns Changed layers
+     * Updates a layer from a metrics packet
+     * @param packet metrics packet received from gear
+     * @returns Changed fields of the layer
      */
-    updateTrackIDs(trackIDs: number[]): LayerIndex[] {
-        return this.update(this._trackID, trackIDs);
+    updateMetrics(packet: TCNetDataPacketMetrics): LayerStateField[] {
+        return this.update(packet.layer, {
+            trackID: packet.trackID,
+            status: packet.state,
+            currentTime: packet.currentPosition,
+            totalTime: packet.trackLength,
+            beatMarker: packet.beatMarker,
+            beatNumber: packet.beatNumber,
+            bpm: packet.bpm,
+            speed: packet.speed,
+            pitchBend: packet.pitchBend,
+            syncMaster: packet.syncMaster,
+        });
     }
 
     /**
-     * Updates status
-     * @param status statuses received from gear
-     * @returns Changed layers
+     * Internal method for easy updating of layer fields
+     * @param idx layer
+     * @param source Source data to update from
+     * @returns Changed fields
      */
-    updateStatus(status: TCNetLayerStatus[]): LayerIndex[] {
-        return this.update(this._status, status);
+    private update(idx: LayerIndex, source: Partial<LayerState>): LayerStateField[] {
+        const layer = this._layers[idx - 1];
+        const changedFields: LayerStateField[] = [];
+        if (!layer) {
+            return changedFields;
+        }
+
+        for (const key of Object.keys(source) as LayerStateField[]) {
+            const value = source[key];
+            const changed =
+                key === "timecode"
+                    ? !this.timecodeEquals(layer.timecode, source.timecode || null)
+                    : layer[key] !== value;
+            if (changed) {
+                (layer as Record<LayerStateField, unknown>)[key] = value;
+                changedFields.push(key);
+            }
+        }
+
+        return changedFields;
+    }
+
+    /**
+     * Compares two timecodes
+     * @param a first timecode
+     * @param b second timecode
+     * @returns true if both timecodes are equal
+     */
+    private timecodeEquals(a: LayerTimecode | null, b: LayerTimecode | null): boolean {
+        if (a === null || b === null) {
+            return a === b;
+        }
+        return (
+            a.mode === b.mode &&
+            a.state === b.state &&
+            a.hours === b.hours &&
+            a.minutes === b.minutes &&
+            a.seconds === b.seconds &&
+            a.frames === b.frames
+        );
+    }
+}
+
+/**
+ * Cache of tracks keyed by track ID, evicting the least recently used track once full
+ */
+class PioneerDJTrackCache {
+    private size: number;
+    private tracks: Map<number, CachedTrack> = new Map();
+    private pending: Map<number, Promise<CachedTrack>> = new Map();
+
+    /**
+     *
+     * @param size maximum number of cached tracks
+     */
+    constructor(size: number) {
+        assert(size > 0, "cache size must be positive");
+        this.size = size;
+    }
+
+    /**
+     * Get a cached track, marking it as recently used
+     * @param trackID track ID
+     * @returns cached track or null if the track is not cached
+     */
+    get(trackID: number): CachedTrack | null {
+        const track = this.tracks.get(trackID);
+        if (!track) {
+            return null;
+        }
+
+        // Map keeps insertion order, re-inserting marks the track as most recently used
+        this.tracks.delete(trackID);
+        this.tracks.set(trackID, track);
+        return track;
     }
 
     /**
-     * Internal method for easy updating of fields
+     * Adds a track to the cache, evicting the least recently used track if the cache is full
+     * @param track track to add
+     */
+    set(track: CachedTrack): void {
+        this.tracks.delete(track.trackID);
+        this.tracks.set(track.trackID, track);
+
+        while (this.tracks.size > this.size) {
+            this.tracks.delete(this.tracks.keys().next().value as number);
+        }
+    }
+
+    /**
+     * Get a track from the cache or load it, concurrent loads of the same track share one loader call
+     * @param trackID track ID
+     * @param loader loads the track if it is not cached
+     * @returns cached track
+     */
+    load(trackID: number, loader: () => Promise<CachedTrack>): Promise<CachedTrack> {
+        const track = this.get(trackID);
+        if (track) {
+            return Promise.resolve(track);
+        }
+
+        let pending = this.pending.get(trackID);
+        if (!pending) {
+            pending = loader()
+                .then((el) => {
+                    this.set(el);
+                    return el;
+                })
+                .finally(() => {
+                    this.pending.delete(trackID);
+                });
+            this.pending.set(trackID, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Removes all tracks from the cache
+     */
+    clear(): void {
+        this.tracks.clear();
+    }
+}
+
+/**
+ * Tracking the state of the Pioneer DJ mixer, channels are numbered from 1
+ */
+class PioneerDJMixerState {
+    private _faderLevel: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _eqHi: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _eqHiMid: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _eqLowMid: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _eqLow: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _filterColor: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _cueA: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _cueB: number[] = new Array(TCNetDataPacketMixer.CHANNEL_COUNT).fill(-1);
+    private _crossfader = -1;
+    private _beatFxOn = -1;
+
+    /**
+     * Get fader level of channel
+     * @param channel mixer channel
+     * @returns fader level
+     */
+    faderLevel(channel: number): number {
+        return this._faderLevel[channel - 1];
+    }
+
+    /**
+     * Get EQ settings of channel
+     * @param channel mixer channel
+     * @returns EQ settings
+     */
+    eq(channel: number): MixerEQ {
+        return {
+            hi: this._eqHi[channel - 1],
+            hiMid: this._eqHiMid[channel - 1],
+            lowMid: this._eqLowMid[channel - 1],
+            low: this._eqLow[channel - 1],
+        };
+    }
+
+    /**
+     * Get filter color of channel
+     * @param channel mixer channel
+     * @returns filter color
+     */
+    filterColor(channel: number): number {
+        return this._filterColor[channel - 1];
+    }
+
+    /**
+     * Get cue buttons of channel
+     * @param channel mixer channel
+     * @returns cue button states
+     */
+    cue(channel: number): MixerCue {
+        return {
+            cueA: this._cueA[channel - 1],
+            cueB: this._cueB[channel - 1],
+        };
+    }
+
+    /**
+     * Get crossfader position
+     * @returns crossfader position
+     */
+    crossfader(): number {
+        return this._crossfader;
+    }
+
+    /**
+     * Get beat effect state
+     * @returns beat effect state
+     */
+    beatFxOn(): number {
+        return this._beatFxOn;
+    }
+
+    /**
+     * Updates the mixer state
+     * @param packet mixer data received from gear
+     * @returns Changed fields
+     */
+    update(packet: TCNetDataPacketMixer): MixerChanges {
+        const channels = packet.channels;
+        const eqHi = this.updateChannels(
+            this._eqHi,
+            channels.map((el) => el.eqHi),
+        );
+        const eqHiMid = this.updateChannels(
+            this._eqHiMid,
+            channels.map((el) => el.eqHiMid),
+        );
+        const eqLowMid = this.updateChannels(
+            this._eqLowMid,
+            channels.map((el) => el.eqLowMid),
+        );
+        const eqLow = this.updateChannels(
+            this._eqLow,
+            channels.map((el) => el.eqLow),
+        );
+        const cueA = this.updateChannels(
+            this._cueA,
+            channels.map((el) => el.cueA),
+        );
+        const cueB = this.updateChannels(
+            this._cueB,
+            channels.map((el) => el.cueB),
+        );
+
+        const changes: MixerChanges = {
+            fader: this.updateChannels(
+                this._faderLevel,
+                channels.map((el) => el.faderLevel),
+            ),
+            eq: [...new Set([...eqHi, ...eqHiMid, ...eqLowMid, ...eqLow])].sort((a, b) => a - b),
+            filter: this.updateChannels(
+                this._filterColor,
+                channels.map((el) => el.filterColor),
+            ),
+            cue: [...new Set([...cueA, ...cueB])].sort((a, b) => a - b),
+            crossfader: this._crossfader !== packet.crossfader,
+            beatFx: this._beatFxOn !== packet.beatFxOn,
+        };
+        this._crossfader = packet.crossfader;
+        this._beatFxOn = packet.beatFxOn;
+
+        return changes;
+    }
+
+    /**
+     * Internal method for easy updating of channel fields
      * @param field field / array in this class
      * @param source Source date to update from
-     * @returns Changed layers
+     * @returns Changed channels
      */
-    private update(field: any[], source: any[]): LayerIndex[] {
-        assert(source.length == 8, "there must be data for exactly 8 layers");
-        const changedLayers: LayerIndex[] = [];
+    private updateChannels(field: number[], source: number[]): number[] {
+        assert(source.length == field.length, "there must be data for every mixer channel");
+        const changedChannels: number[] = [];
 
         for (let i = 0; i < source.length; i++) {
             if (field[i] !== source[i]) {
                 field[i] = source[i];
-                changedLayers.push(i + 1);
+                changedChannels.push(i + 1);
             }
         }
 
-        return changedLayers;
+        return changedChannels;
     }
 }
 
@@ -216,6 +938,53 @@ export type TrackInfo = {
     trackKey: number;
 };
 
+/**
+ * Timecode of a layer
+ */
+export type LayerTimecode = {
+    mode: number;
+    state: TCNetTimecodeState;
+    hours: number;
+    minutes: number;
+    seconds: number;
+    frames: number;
+};
+
+/**
+ * Live state of a layer, merged from Status, Time and Metrics packets
+ */
+export type LayerState = {
+    layer: LayerIndex;
+    name: string | null;
+    trackID: number;
+    status: TCNetLayerStatus;
+    currentTime: number;
+    totalTime: number;
+    beatMarker: number;
+    beatNumber: number;
+    bpm: number;
+    speed: number;
+    pitchBend: number;
+    syncMaster: TCNetLayerSyncMaster;
+    timecode: LayerTimecode | null;
+};
+
+/**
+ * Field of the layer state
+ */
+export type LayerStateField = Exclude<keyof LayerState, "layer">;
+
+/**
+ * Cached Track type, only holds data which does not change during playback. Beat grid, cues and artwork are null if not enabled in the configuration
+ */
+export type CachedTrack = {
+    trackID: number;
+    info: TrackInfo;
+    beatGrid: BeatInfo[] | null;
+    cues: CueInfo | null;
+    artwork: Buffer | null;
+};
+
 export type LayerMetrics = {
     state: TCNetLayerStatus;
     syncMaster: TCNetLayerSyncMaster;
@@ -228,3 +997,74 @@ export type LayerMetrics = {
     pitchBend: number;
     trackID: number;
 };
+
+/**
+ * Beat Info type
+ */
+export type BeatInfo = {
+    beatNumber: number;
+    beatType: TCNetBeatType;
+    timestamp: number;
+};
+
+/**
+ * Cue Point type
+ */
+export type CuePoint = {
+    index: number;
+    type: TCNetCueType;
+    inTime: number;
+    outTime: number;
+    color: {
+        red: number;
+        green: number;
+        blue: number;
+    };
+};
+
+/**
+ * Cue Info type
+ */
+export type CueInfo = {
+    loopInTime: number;
+    loopOutTime: number;
+    cues: CuePoint[];
+};
+
+/**
+ * Wave Form Info type
+ */
+export type WaveFormInfo = {
+    colors: number[];
+    heights: number[];
+};
+
+/**
+ * Mixer EQ type
+ */
+export type MixerEQ = {
+    hi: number;
+    hiMid: number;
+    lowMid: number;
+    low: number;
+};
+
+/**
+ * Mixer Cue type
+ */
+export type MixerCue = {
+    cueA: number;
+    cueB: number;
+};
+
+/**
+ * Changed fields of the mixer, channels are numbered from 1
+ */
+type MixerChanges = {
+    fader: number[];
+    eq: number[];
+    filter: number[];
+    cue: number[];
+    crossfader: boolean;
+    beatFx: boolean;
+};
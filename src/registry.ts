@@ -0,0 +1,164 @@
+import { RemoteInfo } from "dgram";
+import EventEmitter = require("events");
+import * as nw from "./network";
+
+/**
+ * Node seen on the TCNet network
+ */
+export type TCNetNode = {
+    nodeId: number;
+    nodeName: string;
+    nodeType: nw.NodeType;
+    address: string;
+    listenerPort: number;
+    vendorName: string | null;
+    appName: string | null;
+    version: string | null;
+    uptime: number | null;
+    interface: string | null;
+    lastSeen: number;
+};
+
+/**
+ * Keeps track of all nodes announcing themselves on the TCNet network
+ *
+ * Emits `nodeadded`, `nodeupdated` and `noderemoved` with the affected node
+ */
+export class TCNetNodeRegistry extends EventEmitter {
+    private _nodes: Map<string, TCNetNode> = new Map();
+    private timeout: number;
+
+    /**
+     *
+     * @param timeout time in milliseconds after which a silent node is removed
+     */
+    constructor(timeout: number) {
+        super();
+        this.timeout = timeout;
+    }
+
+    /**
+     * All currently known nodes
+     */
+    nodes(): TCNetNode[] {
+        return [...this._nodes.values()];
+    }
+
+    /**
+     * Get a specific node
+     * @param address address the node sends from
+     * @param nodeId id of the node
+     * @returns the node or undefined if it is not known
+     */
+    node(address: string, nodeId: number): TCNetNode | undefined {
+        return this._nodes.get(`${address}:${nodeId}`);
+    }
+
+    /**
+     * Updates the registry from a received packet
+     * @param packet received packet
+     * @param rinfo sender of the packet
+     * @param intf name of the interface the packet was received on, if known
+     */
+    update(packet: nw.TCNetPacket, rinfo: RemoteInfo, intf: string | null = null): void {
+        const key = `${rinfo.address}:${packet.header.nodeId}`;
+
+        if (packet instanceof nw.TCNetOptOutPacket) {
+            this.remove(key);
+            return;
+        }
+
+        const existing = this._nodes.get(key);
+        const node: TCNetNode = existing
+            ? { ...existing }
+            : {
+                  nodeId: packet.header.nodeId,
+                  nodeName: packet.header.nodeName,
+                  nodeType: packet.header.nodeType,
+                  address: rinfo.address,
+                  listenerPort: rinfo.port,
+                  vendorName: null,
+                  appName: null,
+                  version: null,
+                  uptime: null,
+                  interface: null,
+                  lastSeen: 0,
+              };
+
+        node.nodeName = packet.header.nodeName;
+        node.nodeType = packet.header.nodeType;
+        node.lastSeen = Date.now();
+        if (intf !== null) {
+            node.interface = intf;
+        }
+
+        if (packet instanceof nw.TCNetOptInPacket) {
+            node.listenerPort = packet.nodeListenerPort;
+            node.vendorName = packet.vendorName;
+            node.appName = packet.appName;
+            node.version = `${packet.majorVersion}.${packet.minorVersion}.${packet.bugVersion}`;
+            node.uptime = packet.uptime;
+        } else if (packet instanceof nw.TCNetStatusPacket) {
+            node.listenerPort = packet.nodeListenerPort;
+        }
+
+        this._nodes.set(key, node);
+
+        if (!existing) {
+            this.emit("nodeadded", node);
+        } else if (this.changed(existing, node)) {
+            this.emit("nodeupdated", node);
+        }
+    }
+
+    /**
+     * Removes all nodes which have not been seen within the timeout
+     */
+    expire(): void {
+        const now = Date.now();
+        for (const [key, node] of this._nodes) {
+            if (now - node.lastSeen > this.timeout) {
+                this.remove(key);
+            }
+        }
+    }
+
+    /**
+     * Removes all nodes
+     */
+    clear(): void {
+        for (const key of [...this._nodes.keys()]) {
+            this.remove(key);
+        }
+    }
+
+    /**
+     * Removes a node and notifies listeners
+     * @param key key of the node
+     */
+    private remove(key: string): void {
+        const node = this._nodes.get(key);
+        if (node) {
+            this._nodes.delete(key);
+            this.emit("noderemoved", node);
+        }
+    }
+
+    /**
+     * Compares two versions of a node, ignoring fields which change with every announcement
+     * @param a previous version
+     * @param b current version
+     * @returns true if the node changed
+     */
+    private changed(a: TCNetNode, b: TCNetNode): boolean {
+        return (
+            a.nodeName !== b.nodeName ||
+            a.nodeType !== b.nodeType ||
+            a.listenerPort !== b.listenerPort ||
+            a.vendorName !== b.vendorName ||
+            a.appName !== b.appName ||
+            a.version !== b.version ||
+            a.interface !== b.interface
+        );
+    }
+}
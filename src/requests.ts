@@ -0,0 +1,305 @@
+import * as nw from "./network";
+
+/**
+ * AbortSignal as provided by AbortController, only the parts used for cancelling requests
+ */
+export interface TCNetAbortSignal {
+    readonly aborted: boolean;
+    addEventListener(type: "abort", listener: () => void): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * Options of a single data request, unset fields default to the configuration of the client
+ */
+export type TCNetRequestOptions = {
+    timeout?: number;
+    retries?: number;
+    signal?: TCNetAbortSignal;
+};
+
+/**
+ * Caller waiting for the response of a request, the deadline of the current attempt is null until the request is sent
+ */
+type RequestWaiter = {
+    resolve: (value: nw.TCNetDataPacket) => void;
+    reject: (reason: Error) => void;
+    timeout: number;
+    retries: number;
+    attempts: number;
+    deadline: number | null;
+    signal?: TCNetAbortSignal;
+    abortHandler?: () => void;
+};
+
+/**
+ * Request for a data type and layer, shared by all callers asking for the same data
+ */
+type PendingRequest = {
+    key: string;
+    dataType: number;
+    layer: number;
+    waiters: RequestWaiter[];
+    timer: NodeJS.Timeout | null;
+};
+
+/**
+ * Keeps track of pending data requests
+ *
+ * Concurrent requests for the same data type and layer share one request on the network. Requests are sent at most
+ * once per interval, further requests are queued to not flood the server.
+ */
+export class TCNetRequestManager {
+    private send: (dataType: number, layer: number) => Promise<void>;
+    private interval: number;
+    private requests: Map<string, PendingRequest> = new Map();
+    private queue: PendingRequest[] = [];
+    private queueTimeout: NodeJS.Timeout | null = null;
+    private lastSent = 0;
+
+    /**
+     *
+     * @param send sends a request packet to the server
+     * @param interval minimum time in milliseconds between two sent requests
+     */
+    constructor(send: (dataType: number, layer: number) => Promise<void>, interval: number) {
+        this.send = send;
+        this.interval = interval;
+    }
+
+    /**
+     * Requests data, joining a pending request for the same data type and layer
+     *
+     * @param dataType requested data type
+     * @param layer requested layer
+     * @param timeout time in milliseconds to wait for a response per attempt
+     * @param retries number of times the request is repeated after a timeout
+     * @param signal signal to cancel the request
+     * @returns Promise to wait for answer on request
+     */
+    request(
+        dataType: number,
+        layer: number,
+        timeout: number,
+        retries: number,
+        signal?: TCNetAbortSignal,
+    ): Promise<nw.TCNetDataPacket> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new Error("Request aborted"));
+                return;
+            }
+
+            const key = `${dataType}-${layer}`;
+            const existing = this.requests.get(key);
+            const request: PendingRequest = existing || { key, dataType, layer, waiters: [], timer: null };
+
+            const waiter: RequestWaiter = { resolve, reject, timeout, retries, attempts: 0, deadline: null, signal };
+            if (signal) {
+                waiter.abortHandler = () => {
+                    this.removeWaiter(request, waiter);
+                    reject(new Error("Request aborted"));
+                };
+                signal.addEventListener("abort", waiter.abortHandler);
+            }
+            request.waiters.push(waiter);
+
+            if (!existing) {
+                this.requests.set(key, request);
+                this.enqueue(request);
+            } else if (!this.queue.includes(request)) {
+                // Request is already sent, the attempt of the caller starts now
+                waiter.deadline = Date.now() + timeout;
+                this.schedule(request);
+            }
+        });
+    }
+
+    /**
+     * Resolves all callers waiting for a request
+     * @param key key of the request
+     * @param packet received response
+     * @returns true if a request was pending
+     */
+    resolve(key: string, packet: nw.TCNetDataPacket): boolean {
+        const request = this.finish(key);
+        request?.waiters.forEach((el) => {
+            el.resolve(packet);
+        });
+        return !!request;
+    }
+
+    /**
+     * Rejects all callers waiting for a request
+     * @param key key of the request
+     * @param err reason
+     * @returns true if a request was pending
+     */
+    reject(key: string, err: Error): boolean {
+        const request = this.finish(key);
+        request?.waiters.forEach((el) => {
+            el.reject(err);
+        });
+        return !!request;
+    }
+
+    /**
+     * Rejects all pending requests
+     * @param err reason
+     */
+    clear(err: Error): void {
+        [...this.requests.keys()].forEach((el) => {
+            this.reject(el, err);
+        });
+        if (this.queueTimeout) {
+            clearTimeout(this.queueTimeout);
+            this.queueTimeout = null;
+        }
+    }
+
+    /**
+     * Adds a request to the send queue and sends it as soon as the rate limit allows
+     * @param request request to send
+     */
+    private enqueue(request: PendingRequest): void {
+        this.queue.push(request);
+        this.processQueue();
+    }
+
+    /**
+     * Sends queued requests, respecting the minimum interval between requests
+     */
+    private processQueue(): void {
+        if (this.queueTimeout) {
+            return;
+        }
+
+        while (this.queue.length > 0) {
+            const due = this.lastSent + this.interval - Date.now();
+            if (due > 0) {
+                this.queueTimeout = setTimeout(() => {
+                    this.queueTimeout = null;
+                    this.processQueue();
+                }, due);
+                return;
+            }
+
+            const request = <PendingRequest>this.queue.shift();
+            this.lastSent = Date.now();
+            this.sendRequest(request);
+        }
+    }
+
+    /**
+     * Sends a request, starting a new attempt for every caller which is not waiting for a response yet
+     * @param request request to send
+     */
+    private sendRequest(request: PendingRequest): void {
+        const now = Date.now();
+        request.waiters.forEach((el) => {
+            if (el.deadline === null) {
+                el.deadline = now + el.timeout;
+            }
+        });
+        this.schedule(request);
+
+        this.send(request.dataType, request.layer).catch((err) => {
+            this.reject(request.key, err);
+        });
+    }
+
+    /**
+     * Sets the timer of a request to the earliest deadline of its callers
+     * @param request request
+     */
+    private schedule(request: PendingRequest): void {
+        if (request.timer) {
+            clearTimeout(request.timer);
+            request.timer = null;
+        }
+
+        const deadlines = request.waiters.filter((el) => el.deadline !== null).map((el) => <number>el.deadline);
+        if (deadlines.length == 0) {
+            return;
+        }
+        request.timer = setTimeout(() => {
+            request.timer = null;
+            this.timeoutRequest(request);
+        }, Math.max(0, Math.min(...deadlines) - Date.now()));
+    }
+
+    /**
+     * Handles timed out attempts, only callers whose deadline has passed are affected. Callers without retries left
+     * are rejected and the request is repeated for the others.
+     * @param request timed out request
+     */
+    private timeoutRequest(request: PendingRequest): void {
+        const now = Date.now();
+        for (const waiter of [...request.waiters]) {
+            if (waiter.deadline === null || waiter.deadline > now) {
+                continue;
+            }
+
+            waiter.attempts++;
+            waiter.deadline = null;
+            if (waiter.attempts > waiter.retries) {
+                this.removeWaiter(request, waiter);
+                waiter.reject(new Error("Timeout while requesting data"));
+            }
+        }
+
+        if (this.requests.get(request.key) !== request) {
+            return;
+        }
+        this.schedule(request);
+        if (request.waiters.some((el) => el.deadline === null) && !this.queue.includes(request)) {
+            this.enqueue(request);
+        }
+    }
+
+    /**
+     * Removes a caller from a request, the request is cancelled if no callers are left
+     * @param request request
+     * @param waiter caller to remove
+     */
+    private removeWaiter(request: PendingRequest, waiter: RequestWaiter): void {
+        const idx = request.waiters.indexOf(waiter);
+        if (idx !== -1) {
+            request.waiters.splice(idx, 1);
+        }
+        if (waiter.signal && waiter.abortHandler) {
+            waiter.signal.removeEventListener("abort", waiter.abortHandler);
+        }
+        if (request.waiters.length == 0 && this.requests.get(request.key) === request) {
+            this.finish(request.key);
+        }
+    }
+
+    /**
+     * Removes a request from all bookkeeping
+     * @param key key of the request
+     * @returns the removed request or undefined if no request was pending
+     */
+    private finish(key: string): PendingRequest | undefined {
+        const request = this.requests.get(key);
+        if (!request) {
+            return undefined;
+        }
+
+        this.requests.delete(key);
+        if (request.timer) {
+            clearTimeout(request.timer);
+            request.timer = null;
+        }
+        const idx = this.queue.indexOf(request);
+        if (idx !== -1) {
+            this.queue.splice(idx, 1);
+        }
+        request.waiters.forEach((el) => {
+            if (el.signal && el.abortHandler) {
+                el.signal.removeEventListener("abort", el.abortHandler);
+            }
+        });
+        return request;
+    }
+}
@@ -0,0 +1,336 @@
+import { RemoteInfo } from "dgram";
+import * as nw from "./network";
+import { TCNetConfiguration } from "./tcnet";
+import { TCNetEndpoint } from "./node";
+import { TCNetNodeRegistry } from "./registry";
+import { TCNetUDPTransport, TCNetSocketType, TCNET_BROADCAST_PORT, TCNET_TIMESTAMP_PORT } from "./transport";
+
+export class TCNetServerConfiguration extends TCNetConfiguration {
+    unicastPort = 65033;
+    nodeName = "TCNETSRV";
+    statusInterval = 1000;
+    timeInterval = 40;
+    fileClusterSize = 1400;
+}
+
+/**
+ * State of a layer published by the server
+ */
+export type TCNetServerLayer = {
+    name: string;
+    source: number;
+    status: nw.TCNetLayerStatus;
+    trackID: number;
+    currentTime: number;
+    totalTime: number;
+    beatMarker: number;
+    timecode?: nw.TCNetTimecode;
+};
+
+/**
+ * Source of the data published by the server
+ */
+export interface TCNetLayerDataSource {
+    /**
+     * Current state of a layer, used for Status and Time packets
+     * @param layer layer (1-8)
+     * @returns state of the layer or null if the layer is not in use
+     */
+    layer(layer: number): TCNetServerLayer | null;
+
+    /**
+     * Answers a Request packet of a client
+     * @param dataType requested data type
+     * @param layer requested layer
+     * @returns data packet with all fields set (header and buffer are filled by the server) or null if not available
+     */
+    requestData(
+        dataType: nw.TCNetDataPacketType,
+        layer: number,
+    ): nw.TCNetDataPacket | null | Promise<nw.TCNetDataPacket | null>;
+}
+
+/**
+ * Implementation of a TCNet master node, publishing layers of a data source
+ */
+export class TCNetServer extends TCNetEndpoint<TCNetServerConfiguration> {
+    private source: TCNetLayerDataSource;
+    private registry: TCNetNodeRegistry;
+    private statusInterval: NodeJS.Timeout;
+    private timeInterval: NodeJS.Timeout;
+
+    /**
+     *
+     * @param source source of the published layer data
+     * @param config configuration for TCNet access
+     */
+    constructor(source: TCNetLayerDataSource, config?: TCNetServerConfiguration) {
+        super(config || new TCNetServerConfiguration(), nw.NodeType.Master);
+        this.source = source;
+        this.registry = new TCNetNodeRegistry(this.config.nodeTimeout);
+    }
+
+    /**
+     * Starts announcing the server on the network
+     */
+    public async start(): Promise<void> {
+        this.transport = this.config.transport || new TCNetUDPTransport();
+        await this.transport.open(
+            {
+                broadcastAddresses: [this.config.broadcastAddress],
+                unicastPort: this.config.unicastPort,
+                receiveTimestamp: false,
+            },
+            this.receive.bind(this),
+        );
+
+        await this.announce();
+        this.statusInterval = setInterval(() => {
+            this.registry.expire();
+            this.announce().catch((err) => {
+                this.debug("Announcement failed", err);
+            });
+        }, this.config.statusInterval);
+        this.timeInterval = setInterval(() => {
+            this.sendTime().catch((err) => {
+                this.debug("Sending time failed", err);
+            });
+        }, this.config.timeInterval);
+    }
+
+    /**
+     * Stops the server and opts out of the network, does nothing if the server is not started
+     */
+    public async stop(): Promise<void> {
+        clearInterval(this.statusInterval);
+        clearInterval(this.timeInterval);
+        if (!this.transport) {
+            return;
+        }
+
+        const optOutPacket = new nw.TCNetOptOutPacket();
+        optOutPacket.nodeCount = this.registry.nodes().length;
+        optOutPacket.nodeListenerPort = this.config.unicastPort;
+        await this.broadcastPacket(optOutPacket);
+
+        this.transport?.close();
+        this.transport = null;
+        this.removeAllListeners();
+        this.registry.clear();
+        this.registry.removeAllListeners();
+    }
+
+    /**
+     * Access to the registry of nodes registered at this server
+     */
+    public nodes(): TCNetNodeRegistry {
+        return this.registry;
+    }
+
+    /**
+     * Parse a received datagram, ignoring our own packets looped back by the network
+     * @param msg datagram buffer
+     * @returns the parsed packet
+     */
+    protected parsePacket(msg: Buffer): nw.TCNetPacket | null {
+        const packet = super.parsePacket(msg);
+        return packet && !this.isOwnPacket(packet) ? packet : null;
+    }
+
+    /**
+     * Handles a datagram received by the transport
+     *
+     * @param socket socket the datagram was received on
+     * @param msg datagram buffer
+     * @param rinfo remoteinfo
+     */
+    private receive(socket: TCNetSocketType, msg: Buffer, rinfo: RemoteInfo): void {
+        if (socket === "broadcast") {
+            this.receiveBroadcast(msg, rinfo);
+        } else if (socket === "unicast") {
+            this.receiveUnicast(msg, rinfo);
+        }
+    }
+
+    /**
+     * Callback method to receive datagrams on the broadcast socket
+     *
+     * @param msg datagram buffer
+     * @param rinfo remoteinfo
+     */
+    private receiveBroadcast(msg: Buffer, rinfo: RemoteInfo): void {
+        const packet = this.parsePacket(msg);
+
+        if (packet instanceof nw.TCNetOptInPacket || packet instanceof nw.TCNetOptOutPacket) {
+            this.receiveNode(packet, rinfo);
+        }
+    }
+
+    /**
+     * Callback method to receive datagrams on the unicast socket
+     *
+     * @param msg datagram buffer
+     * @param rinfo remoteinfo
+     */
+    private receiveUnicast(msg: Buffer, rinfo: RemoteInfo): void {
+        const packet = this.parsePacket(msg);
+
+        if (packet instanceof nw.TCNetOptInPacket || packet instanceof nw.TCNetOptOutPacket) {
+            this.receiveNode(packet, rinfo);
+        } else if (packet instanceof nw.TCNetRequestPacket) {
+            this.receiveRequest(packet, rinfo).catch((err) => {
+                this.debug("Answering request failed", err);
+            });
+        } else if (packet instanceof nw.TCNetTimeSyncPacket) {
+            if (packet.step == nw.TCNetTimeSyncStep.Initialize) {
+                const response = new nw.TCNetTimeSyncPacket();
+                response.step = nw.TCNetTimeSyncStep.Response;
+                response.nodeListenerPort = this.config.unicastPort;
+                response.remoteTimestamp = packet.remoteTimestamp;
+                this.sendPacket(response, "unicast", packet.nodeListenerPort, rinfo.address).catch((err) => {
+                    this.debug("Answering time sync failed", err);
+                });
+            }
+        }
+    }
+
+    /**
+     * Registers a node which opted in and confirms the registration
+     *
+     * @param packet received OptIn or OptOut packet
+     * @param rinfo remoteinfo
+     */
+    private receiveNode(packet: nw.TCNetOptInPacket | nw.TCNetOptOutPacket, rinfo: RemoteInfo): void {
+        this.registry.update(packet, rinfo);
+
+        if (packet instanceof nw.TCNetOptInPacket && packet.header.nodeType != nw.NodeType.Master) {
+            this.sendPacket(
+                this.createOptInPacket(this.registry.nodes().length),
+                "unicast",
+                packet.nodeListenerPort,
+                rinfo.address,
+            ).catch((err) => {
+                this.debug("Confirming registration failed", err);
+            });
+        }
+    }
+
+    /**
+     * Answers a Request packet from the data source
+     *
+     * @param packet received request
+     * @param rinfo remoteinfo
+     */
+    private async receiveRequest(packet: nw.TCNetRequestPacket, rinfo: RemoteInfo): Promise<void> {
+        const node = this.registry.node(rinfo.address, packet.header.nodeId);
+        if (!node) {
+            this.debug("Received request from unregistered node", rinfo);
+            return;
+        }
+
+        const dataPacket = await this.source.requestData(packet.dataType, packet.layer);
+        if (dataPacket === null) {
+            const errorPacket = new nw.TCNetErrorPacket();
+            errorPacket.dataType = packet.dataType;
+            errorPacket.layer = packet.layer;
+            errorPacket.code = nw.TCNetErrorCode.EmptyData;
+            errorPacket.messageType = nw.TCNetMessageType.Request;
+            await this.sendPacket(errorPacket, "unicast", node.listenerPort, node.address);
+            return;
+        }
+
+        dataPacket.dataType = packet.dataType;
+        dataPacket.layer = packet.layer;
+        if (dataPacket instanceof nw.TCNetFilePacket) {
+            await this.sendFile(dataPacket, node.listenerPort, node.address);
+            return;
+        }
+        await this.sendPacket(dataPacket, "unicast", node.listenerPort, node.address);
+    }
+
+    /**
+     * Sends a file, split into packets of the configured cluster size
+     *
+     * @param file file packet with the whole content
+     * @param port destination port
+     * @param address destination address
+     */
+    private async sendFile(file: nw.TCNetFilePacket, port: number, address: string): Promise<void> {
+        const clusterSize = this.config.fileClusterSize;
+        const totalPackets = Math.max(1, Math.ceil(file.content.length / clusterSize));
+
+        for (let n = 0; n < totalPackets; n++) {
+            const packet = new nw.TCNetFilePacket();
+            packet.dataType = file.dataType;
+            packet.layer = file.layer;
+            packet.dataSize = file.content.length;
+            packet.totalPackets = totalPackets;
+            packet.packetNo = n + 1;
+            packet.dataClusterSize = clusterSize;
+            packet.content = file.content.slice(n * clusterSize, (n + 1) * clusterSize);
+            await this.sendPacket(packet, "unicast", port, address);
+        }
+    }
+
+    /**
+     * Broadcasts a packet to the network
+     *
+     * @param packet packet to broadcast
+     */
+    private async broadcastPacket(packet: nw.TCNetPacket): Promise<void> {
+        await this.sendPacket(packet, "broadcast", TCNET_BROADCAST_PORT, this.config.broadcastAddress);
+    }
+
+    /**
+     * Called periodically to announce the server and the status of all layers
+     */
+    private async announce(): Promise<void> {
+        await this.broadcastPacket(this.createAnnouncement(this.registry.nodes().length));
+
+        const statusPacket = new nw.TCNetStatusPacket();
+        statusPacket.nodeCount = this.registry.nodes().length;
+        statusPacket.nodeListenerPort = this.config.unicastPort;
+        statusPacket.smpteMode = 0;
+        statusPacket.autoMasterMode = 0;
+        for (let n = 0; n < 8; n++) {
+            const layer = this.source.layer(n + 1);
+            statusPacket.layerSource[n] = layer?.source || 0;
+            statusPacket.layerStatus[n] = layer?.status || nw.TCNetLayerStatus.IDLE;
+            statusPacket.trackID[n] = layer?.trackID || 0;
+            statusPacket.layerName[n] = layer?.name || "";
+        }
+        await this.broadcastPacket(statusPacket);
+    }
+
+    /**
+     * Called periodically to broadcast the time of all layers
+     */
+    private async sendTime(): Promise<void> {
+        const timePacket = new nw.TCNetTimePacket();
+        timePacket.generalSMPTEMode = 0;
+        for (let n = 0; n < 8; n++) {
+            const layer = this.source.layer(n + 1);
+            timePacket.layerCurrentTime[n] = layer?.currentTime || 0;
+            timePacket.layerTotalTime[n] = layer?.totalTime || 0;
+            timePacket.layerBeatmarker[n] = layer?.beatMarker || 0;
+            timePacket.layerState[n] = layer?.status || nw.TCNetLayerStatus.IDLE;
+            timePacket.layerTimecode[n] = layer?.timecode || this.emptyTimecode();
+        }
+        await this.sendPacket(timePacket, "timestamp", TCNET_TIMESTAMP_PORT, this.config.broadcastAddress);
+    }
+
+    /**
+     * Timecode of a layer without timecode
+     * @returns stopped timecode at zero
+     */
+    private emptyTimecode(): nw.TCNetTimecode {
+        const timecode = new nw.TCNetTimecode();
+        timecode.mode = 0;
+        timecode.state = nw.TCNetTimecodeState.Stopped;
+        timecode.hours = 0;
+        timecode.minutes = 0;
+        timecode.seconds = 0;
+        timecode.frames = 0;
+        return timecode;
+    }
+}
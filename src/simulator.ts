@@ -0,0 +1,270 @@
+import * as nw from "./network";
+import { TCNetServer, TCNetServerConfiguration, TCNetServerLayer, TCNetLayerDataSource } from "./server";
+
+/**
+ * Track which can be loaded onto a virtual deck
+ */
+export type TCNetVirtualTrack = {
+    trackID: number;
+    trackArtist: string;
+    trackTitle: string;
+    trackKey: number;
+    trackLength: number;
+    bpm: number;
+    artwork?: Buffer;
+};
+
+/**
+ * State of a virtual deck
+ */
+type VirtualDeck = {
+    track: TCNetVirtualTrack | null;
+    status: nw.TCNetLayerStatus;
+    position: number;
+    positionUpdated: number;
+    bpm: number;
+};
+
+/**
+ * Configuration of the simulator, binding to loopback by default
+ */
+export class TCNetSimulatorConfiguration extends TCNetServerConfiguration {
+    broadcastAddress = "127.0.0.1";
+    nodeName = "TCNETSIM";
+    appName = "SIMULATOR";
+}
+
+/**
+ * Emulates a Pro DJ Link Bridge with virtual decks on layers 1-4
+ *
+ * Speed and pitch bend in Metrics data are encoded in 1/100 percent (10000 = 100%)
+ */
+export class TCNetSimulator implements TCNetLayerDataSource {
+    private _server: TCNetServer;
+    private decks: VirtualDeck[] = [];
+
+    /**
+     *
+     * @param config configuration for TCNet access
+     */
+    constructor(config?: TCNetSimulatorConfiguration) {
+        this._server = new TCNetServer(this, config || new TCNetSimulatorConfiguration());
+
+        for (let n = 0; n < 4; n++) {
+            this.decks.push({
+                track: null,
+                status: nw.TCNetLayerStatus.IDLE,
+                position: 0,
+                positionUpdated: Date.now(),
+                bpm: 0,
+            });
+        }
+    }
+
+    /**
+     * Starts the simulated Bridge
+     */
+    async start(): Promise<void> {
+        await this._server.start();
+    }
+
+    /**
+     * Stops the simulated Bridge
+     */
+    async stop(): Promise<void> {
+        await this._server.stop();
+    }
+
+    /**
+     * Access to underlying server
+     */
+    server(): TCNetServer {
+        return this._server;
+    }
+
+    /**
+     * Loads a track onto a deck, the deck is paused at the beginning of the track
+     * @param layer layer of the deck (1-4)
+     * @param track track to load
+     */
+    loadTrack(layer: number, track: TCNetVirtualTrack): void {
+        const deck = this.deck(layer);
+        deck.track = track;
+        deck.bpm = track.bpm;
+        this.setPosition(deck, 0);
+        deck.status = nw.TCNetLayerStatus.PAUSED;
+    }
+
+    /**
+     * Starts playback of a deck
+     * @param layer layer of the deck (1-4)
+     */
+    play(layer: number): void {
+        const deck = this.loadedDeck(layer);
+        this.setPosition(deck, this.position(deck));
+        deck.status = nw.TCNetLayerStatus.PLAYING;
+    }
+
+    /**
+     * Pauses playback of a deck
+     * @param layer layer of the deck (1-4)
+     */
+    pause(layer: number): void {
+        const deck = this.loadedDeck(layer);
+        this.setPosition(deck, this.position(deck));
+        deck.status = nw.TCNetLayerStatus.PAUSED;
+    }
+
+    /**
+     * Moves the playhead of a deck
+     * @param layer layer of the deck (1-4)
+     * @param position new position in milliseconds
+     */
+    seek(layer: number, position: number): void {
+        const deck = this.loadedDeck(layer);
+        this.setPosition(deck, position);
+    }
+
+    /**
+     * Changes the tempo of a deck, as if the pitch fader was moved
+     * @param layer layer of the deck (1-4)
+     * @param bpm new tempo
+     */
+    setBPM(layer: number, bpm: number): void {
+        const deck = this.loadedDeck(layer);
+        this.setPosition(deck, this.position(deck));
+        deck.bpm = bpm;
+    }
+
+    /**
+     * Current state of a layer
+     * @param layer layer (1-8)
+     * @returns state of the layer or null if no track is loaded
+     */
+    layer(layer: number): TCNetServerLayer | null {
+        const deck = this.decks[layer - 1];
+        if (!deck || !deck.track) {
+            return null;
+        }
+
+        const position = this.position(deck);
+        return {
+            name: `Deck ${layer}`,
+            source: layer,
+            status: deck.status,
+            trackID: deck.track.trackID,
+            currentTime: Math.round(position),
+            totalTime: deck.track.trackLength,
+            beatMarker: this.beatNumber(deck, position) % 4,
+        };
+    }
+
+    /**
+     * Answers MetaData, Metrics and artwork requests
+     * @param dataType requested data type
+     * @param layer requested layer
+     * @returns data packet or null if no track is loaded or the data type is not simulated
+     */
+    requestData(dataType: nw.TCNetDataPacketType, layer: number): nw.TCNetDataPacket | null {
+        const deck = this.decks[layer - 1];
+        if (!deck || !deck.track) {
+            return null;
+        }
+
+        if (dataType == nw.TCNetDataPacketType.MetaData) {
+            const packet = new nw.TCNetDataPacketMetadata();
+            packet.trackArtist = deck.track.trackArtist;
+            packet.trackTitle = deck.track.trackTitle;
+            packet.trackKey = deck.track.trackKey;
+            packet.trackID = deck.track.trackID;
+            return packet;
+        } else if (dataType == nw.TCNetDataPacketType.MetricsData) {
+            const position = this.position(deck);
+            const pitch = Math.round((deck.bpm / deck.track.bpm) * 10000);
+
+            const packet = new nw.TCNetDataPacketMetrics();
+            packet.state = deck.status;
+            packet.syncMaster = nw.TCNetLayerSyncMaster.Slave;
+            packet.beatMarker = this.beatNumber(deck, position) % 4;
+            packet.trackLength = deck.track.trackLength;
+            packet.currentPosition = Math.round(position);
+            packet.speed = deck.status == nw.TCNetLayerStatus.PLAYING ? pitch : 0;
+            packet.beatNumber = this.beatNumber(deck, position);
+            packet.bpm = Math.round(deck.bpm * 100);
+            packet.pitchBend = pitch;
+            packet.trackID = deck.track.trackID;
+            return packet;
+        } else if (dataType == nw.TCNetDataPacketType.LowResArtworkFile && deck.track.artwork) {
+            const packet = new nw.TCNetFilePacket();
+            packet.content = deck.track.artwork;
+            return packet;
+        }
+        return null;
+    }
+
+    /**
+     * Get a deck
+     * @param layer layer of the deck (1-4)
+     * @returns deck
+     */
+    private deck(layer: number): VirtualDeck {
+        const deck = this.decks[layer - 1];
+        if (!deck) {
+            throw new Error(`Layer ${layer} is not a virtual deck`);
+        }
+        return deck;
+    }
+
+    /**
+     * Get a deck which has a track loaded
+     * @param layer layer of the deck (1-4)
+     * @returns deck
+     */
+    private loadedDeck(layer: number): VirtualDeck & { track: TCNetVirtualTrack } {
+        const deck = this.deck(layer);
+        if (!deck.track) {
+            throw new Error(`No track loaded on layer ${layer}`);
+        }
+        return deck as VirtualDeck & { track: TCNetVirtualTrack };
+    }
+
+    /**
+     * Current playhead position of a deck
+     * @param deck deck
+     * @returns position in milliseconds
+     */
+    private position(deck: VirtualDeck): number {
+        if (!deck.track) {
+            return 0;
+        }
+        if (deck.status != nw.TCNetLayerStatus.PLAYING) {
+            return deck.position;
+        }
+
+        const elapsed = (Date.now() - deck.positionUpdated) * (deck.bpm / deck.track.bpm);
+        return Math.min(deck.position + elapsed, deck.track.trackLength);
+    }
+
+    /**
+     * Sets the playhead position of a deck
+     * @param deck deck
+     * @param position position in milliseconds
+     */
+    private setPosition(deck: VirtualDeck, position: number): void {
+        deck.position = Math.max(0, Math.min(position, deck.track?.trackLength || 0));
+        deck.positionUpdated = Date.now();
+    }
+
+    /**
+     * Number of the beat at a position, assuming a constant tempo from the start of the track
+     * @param deck deck
+     * @param position position in milliseconds
+     * @returns beat number, starting at 1
+     */
+    private beatNumber(deck: VirtualDeck, position: number): number {
+        if (!deck.track || deck.track.bpm <= 0) {
+            return 0;
+        }
+        return Math.floor((position / 60000) * deck.track.bpm) + 1;
+    }
+}
@@ -1,12 +1,62 @@
-import { Socket, createSocket, RemoteInfo } from "dgram";
-import EventEmitter = require("events");
+import { RemoteInfo } from "dgram";
 import * as nw from "./network";
-import { interfaceAddress } from "./utils";
+import { TCNetEndpoint } from "./node";
+import { TCNetInterface, findInterface, interfaceBindAddress, listInterfaces, timestamp, wrapTimestamp } from "./utils";
+import { TCNetNodeRegistry, TCNetNode } from "./registry";
+import { TCNetRequestManager, TCNetRequestOptions } from "./requests";
+import {
+    TCNetTransport,
+    TCNetUDPTransport,
+    TCNetSocketType,
+    TCNET_BROADCAST_PORT,
+    TCNET_TIMESTAMP_PORT,
+} from "./transport";
+
+export { TCNetSocketType, TCNET_BROADCAST_PORT, TCNET_TIMESTAMP_PORT };
+
+type STORED_CONTROL = {
+    resolve: () => void;
+    reject: (reason: Error) => void;
+    timedOut: boolean;
+    timeout: NodeJS.Timeout | null;
+};
 
-const TCNET_BROADCAST_PORT = 60000;
-const TCNET_TIMESTAMP_PORT = 60001;
+/**
+ * Received fragments of a multi-part data packet
+ */
+type FragmentSet = {
+    totalPackets: number;
+    dataSize: number;
+    started: number;
+    fragments: Map<number, nw.TCNetDataPacketMultiPart>;
+};
+
+type TimeSyncSample = {
+    offset: number;
+    roundTripDelay: number;
+};
+
+const TIME_SYNC_SAMPLES = 8;
+// Largest UDP payload over IPv4, larger datagrams fail with EMSGSIZE
+const MAX_DATAGRAM_SIZE = 65507;
 
-type STORED_RESOLVE = (value?: nw.TCNetDataPacket | PromiseLike<nw.TCNetDataPacket> | undefined) => void;
+/**
+ * Sender of a text or application data message
+ */
+export type TCNetMessageSender = {
+    nodeId: number;
+    nodeName: string;
+    nodeType: nw.NodeType;
+    address: string;
+    node: TCNetNode | null;
+};
+
+export enum TCNetConnectionState {
+    Disconnected = "disconnected",
+    Discovering = "discovering",
+    Connected = "connected",
+    Reconnecting = "reconnecting",
+}
 
 export class TCNetConfiguration {
     unicastPort = 65032;
@@ -16,77 +66,169 @@ export class TCNetConfiguration {
     vendorName = "CHDXD1";
     appName = "NODE-TCNET";
     broadcastInterface: string | null = null;
+    broadcastInterfaces: string[] = [];
+    autoDetectInterface = false;
     broadcastAddress = "255.255.255.255";
     requestTimeout = 2000;
+    requestRetries = 0;
+    requestInterval = 5;
+    timeSyncInterval = 10000;
+    nodeTimeout = 5000;
+    connectRetries = 0;
+    reconnectDelay = 1000;
+    reconnectMaxDelay = 30000;
+    transport: TCNetTransport | null = null;
     debug = false;
 }
 
 /**
  * Low level implementation of the TCNet protocol
  */
-export class TCNetClient extends EventEmitter {
-    private config: TCNetConfiguration;
-    private broadcastSocket: Socket;
-    private unicastSocket: Socket;
-    private timestampSocket: Socket;
-    private server: RemoteInfo | null;
-    private seq = 0;
-    private uptime = 0;
+export class TCNetClient extends TCNetEndpoint {
+    private server: RemoteInfo | null = null;
     private connected = false;
+    private state = TCNetConnectionState.Disconnected;
+    private reconnectTimeout: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
     private connectedHandler: (() => void) | null = null;
-    private requests: Map<string, STORED_RESOLVE> = new Map();
+    private requests: TCNetRequestManager;
+    private controlRequests: STORED_CONTROL[] = [];
+    private fragments: Map<string, FragmentSet> = new Map();
     private announcementInterval: NodeJS.Timeout;
+    private timeSyncInterval: NodeJS.Timeout;
+    private timeSyncSamples: TimeSyncSample[] = [];
+    private registry: TCNetNodeRegistry;
+    private _interfaces: TCNetInterface[] = [];
+    private broadcastAddresses: string[] = [];
 
     /**
      *
      * @param config configuration for TCNet access
      */
     constructor(config?: TCNetConfiguration) {
-        super();
-        this.config = config || new TCNetConfiguration();
+        super(config || new TCNetConfiguration(), nw.NodeType.Slave);
+        this.registry = new TCNetNodeRegistry(this.config.nodeTimeout);
+        this.requests = new TCNetRequestManager(this.sendRequest.bind(this), this.config.requestInterval);
+    }
 
-        if (this.config.broadcastInterface && this.config.broadcastAddress == "255.255.255.255") {
-            this.config.broadcastAddress = interfaceAddress(this.config.broadcastInterface);
+    /**
+     * Connect to the TCNet networks
+     */
+    public async connect(): Promise<void> {
+        try {
+            await this.listen();
+
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    await this.waitConnected();
+                    break;
+                } catch (err) {
+                    if (attempt >= this.config.connectRetries) {
+                        throw err;
+                    }
+                    await new Promise((resolve) => setTimeout(resolve, this.reconnectDelay(attempt)));
+                    await this.announceApp();
+                }
+            }
+
+            if (this.config.timeSyncInterval > 0) {
+                await this.syncTime();
+                this.timeSyncInterval = setInterval(() => {
+                    this.syncTime().catch((err) => {
+                        this.debug("Time sync failed", err);
+                    });
+                }, this.config.timeSyncInterval);
+            }
+        } catch (err) {
+            // Close the sockets and stop announcing, whichever step failed
+            this.disconnect();
+            throw err;
         }
     }
 
     /**
-     * Wrapper method to bind a socket with a Promise
-     * @param socket socket to bind
-     * @param port port to bind to
-     * @param address address to bind to
-     * @returns Promise which always resolves (no errors in callback)
+     * Opens the sockets and announces this node without waiting for a master
+     *
+     * Nodes are discovered on networks without a master as well, connect() is needed to receive events.
      */
-    private bindSocket(socket: Socket, port: number, address: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            socket.once("error", reject);
+    public async listen(): Promise<void> {
+        this.setState(TCNetConnectionState.Discovering);
+        this.registry.on("noderemoved", this.receiveNodeRemoved.bind(this));
+
+        this._interfaces = this.detectInterfaces();
+        if (
+            (this.config.autoDetectInterface || this.config.broadcastInterfaces.length > 0) &&
+            this._interfaces.length > 0
+        ) {
+            this.broadcastAddresses = [...new Set(this._interfaces.map(interfaceBindAddress))];
+        } else {
+            this.broadcastAddresses = [this.config.broadcastAddress];
+        }
 
-            socket.bind(port, address, () => {
-                socket.removeListener("error", reject);
-                resolve();
+        this.transport = this.config.transport || new TCNetUDPTransport();
+        await this.transport.open(
+            {
+                broadcastAddresses: this.broadcastAddresses,
+                unicastPort: this.config.unicastPort,
+                receiveTimestamp: true,
+            },
+            this.receive.bind(this),
+        );
+
+        await this.announceApp();
+        this.announcementInterval = setInterval(() => {
+            this.registry.expire();
+            this.expireFragments();
+            // While reconnecting, announcements follow the backoff schedule of scheduleReconnect()
+            if (this.state === TCNetConnectionState.Reconnecting) {
+                return;
+            }
+            this.announceApp().catch((err) => {
+                this.debug("Announcement failed", err);
             });
-        });
+        }, 1000);
     }
 
     /**
-     * Connect to the TCNet networks
+     * Interfaces to listen on according to the configuration
+     *
+     * Interfaces named explicitly may be internal ones like the loopback interface. A missing broadcastInterface is
+     * not an error as it is only used to look up the broadcast address, which was resolved by the constructor already.
+     *
+     * @returns interfaces, empty if no interface is configured
      */
-    public async connect(): Promise<void> {
-        this.broadcastSocket = createSocket({ type: "udp4", reuseAddr: true }, this.receiveBroadcast.bind(this));
-        await this.bindSocket(this.broadcastSocket, TCNET_BROADCAST_PORT, this.config.broadcastAddress);
-        this.broadcastSocket.setBroadcast(true);
-
-        this.timestampSocket = createSocket({ type: "udp4", reuseAddr: true }, this.receiveTimestamp.bind(this));
-        await this.bindSocket(this.timestampSocket, TCNET_TIMESTAMP_PORT, this.config.broadcastAddress);
-        this.timestampSocket.setBroadcast(true);
-
-        this.unicastSocket = createSocket({ type: "udp4", reuseAddr: false }, this.receiveUnicast.bind(this));
-        await this.bindSocket(this.unicastSocket, this.config.unicastPort, "0.0.0.0");
+    private detectInterfaces(): TCNetInterface[] {
+        if (this.config.autoDetectInterface) {
+            return listInterfaces();
+        }
+        if (!this.config.broadcastInterface && this.config.broadcastInterfaces.length == 0) {
+            return [];
+        }
 
-        await this.announceApp();
-        this.announcementInterval = setInterval(this.announceApp.bind(this), 1000);
+        const interfaces = listInterfaces(true);
+        const names = new Set(this.config.broadcastInterfaces);
+        const selected: TCNetInterface[] = [];
+        if (this.config.broadcastInterface && !names.has(this.config.broadcastInterface)) {
+            selected.push(...interfaces.filter((el) => el.name === this.config.broadcastInterface));
+        }
+        for (const name of names) {
+            const matching = interfaces.filter((el) => el.name === name);
+            if (matching.length == 0) {
+                throw new Error(`Interface ${name} does not exist or does not have an IPv4 address`);
+            }
+            selected.push(...matching);
+        }
+        return selected;
+    }
 
-        await this.waitConnected();
+    /**
+     * Marks the client as connected without opening any sockets
+     *
+     * Used to feed recorded datagrams through receive(), sending packets is not possible in this mode.
+     */
+    public connectOffline(): void {
+        this.connected = true;
+        this.setState(TCNetConnectionState.Connected);
     }
 
     /**
@@ -94,10 +236,51 @@ export class TCNetClient extends EventEmitter {
      */
     public disconnect(): void {
         clearInterval(this.announcementInterval);
-        this.broadcastSocket.close();
-        this.unicastSocket.close();
+        clearInterval(this.timeSyncInterval);
+        if (this.reconnectTimeout) {
+            clearTimeout(this.reconnectTimeout);
+            this.reconnectTimeout = null;
+        }
+        this.timeSyncSamples = [];
+        this.fragments.clear();
+        this.requests.clear(new Error("Disconnected"));
+        for (const pendingControl of this.controlRequests.splice(0)) {
+            if (pendingControl.timeout) {
+                clearTimeout(pendingControl.timeout);
+            }
+            if (!pendingControl.timedOut) {
+                pendingControl.reject(new Error("Disconnected"));
+            }
+        }
+        this.transport?.close();
+        this.transport = null;
+        this.setState(TCNetConnectionState.Disconnected);
         this.removeAllListeners();
+        this.registry.clear();
+        this.registry.removeAllListeners();
         this.connected = false;
+        this.connectedHandler = null;
+        this.server = null;
+    }
+
+    /**
+     * Current state of the connection to the master
+     */
+    public connectionState(): TCNetConnectionState {
+        return this.state;
+    }
+
+    /**
+     * Changes the connection state and notifies listeners
+     * @param state new state
+     */
+    private setState(state: TCNetConnectionState): void {
+        if (this.state === state) {
+            return;
+        }
+        const previous = this.state;
+        this.state = state;
+        this.emit("statechange", state, previous);
     }
 
     /**
@@ -105,43 +288,126 @@ export class TCNetClient extends EventEmitter {
      */
     private waitConnected(): Promise<void> {
         return new Promise((resolve, reject) => {
-            this.connectedHandler = resolve;
-
-            setTimeout(() => {
-                if (!this.connected) {
-                    this.disconnect();
-                    reject(new Error("Timeout connecting to network"));
-                }
+            const timeout = setTimeout(() => {
+                this.connectedHandler = null;
+                reject(new Error("Timeout connecting to network"));
             }, this.config.requestTimeout);
+
+            this.connectedHandler = () => {
+                clearTimeout(timeout);
+                resolve();
+            };
         });
     }
 
     /**
-     * Parse a packet from a ManagementHeader
-     * @param header the received management header
-     * @returns the parsed packet
+     * Delay before the next discovery attempt, doubling with every attempt
+     * @param attempt number of failed attempts
+     * @returns delay in milliseconds
      */
-    private parsePacket(header: nw.TCNetManagementHeader): nw.TCNetPacket | null {
-        const packetClass = nw.TCNetPackets[header.messageType];
-        if (packetClass !== null) {
-            const packet = new packetClass();
+    private reconnectDelay(attempt: number): number {
+        return Math.min(this.config.reconnectDelay * Math.pow(2, attempt), this.config.reconnectMaxDelay);
+    }
 
-            if (packet.length() !== -1 && packet.length() !== header.buffer.length) {
-                if (this.config.debug)
-                    console.log(
-                        `Packet has the wrong length (expected: ${packet.length()}, received: ${header.buffer.length})`,
-                        header,
-                    );
-                return null;
+    /**
+     * Called when the current master is gone, keeps trying to register at a master
+     */
+    private lostServer(): void {
+        this.server = null;
+        if (this.state !== TCNetConnectionState.Connected) {
+            return;
+        }
+
+        this.debug("Lost connection to Master, reconnecting");
+        this.setState(TCNetConnectionState.Reconnecting);
+        this.reconnectAttempt = 0;
+        this.scheduleReconnect();
+    }
+
+    /**
+     * Schedules the next announcement while reconnecting
+     */
+    private scheduleReconnect(): void {
+        this.reconnectTimeout = setTimeout(() => {
+            this.reconnectTimeout = null;
+            if (this.state !== TCNetConnectionState.Reconnecting) {
+                return;
             }
 
-            packet.buffer = header.buffer;
-            packet.header = header;
-            packet.read();
+            this.announceApp().catch((err) => {
+                this.debug("Announcement failed", err);
+            });
+            this.scheduleReconnect();
+        }, this.reconnectDelay(this.reconnectAttempt++));
+    }
 
-            return packet;
+    /**
+     * Called by the node registry when a node is gone
+     * @param node removed node
+     */
+    private receiveNodeRemoved(node: TCNetNode): void {
+        if (this.server?.address == node.address && this.server?.port == node.listenerPort) {
+            this.lostServer();
+        }
+    }
+
+    /**
+     * Checks if a packet announces a node
+     * @param packet received packet
+     * @returns true for OptIn, OptOut and Status packets
+     */
+    private isNodePacket(packet: nw.TCNetPacket): boolean {
+        return (
+            packet instanceof nw.TCNetOptInPacket ||
+            packet instanceof nw.TCNetOptOutPacket ||
+            packet instanceof nw.TCNetStatusPacket
+        );
+    }
+
+    /**
+     * Interfaces the client listens on, empty if no interface is configured
+     */
+    public interfaces(): TCNetInterface[] {
+        return this._interfaces;
+    }
+
+    /**
+     * Interface the discovered server was seen on
+     * @returns interface or null if no server was discovered or the interface is not known
+     */
+    public masterInterface(): TCNetInterface | null {
+        return this.server ? findInterface(this.server.address, this._interfaces) : null;
+    }
+
+    /**
+     * Access to the registry of nodes seen on the network
+     */
+    public nodes(): TCNetNodeRegistry {
+        return this.registry;
+    }
+
+    /**
+     * Handles a datagram received on one of the sockets
+     *
+     * @param socket socket the datagram was received on
+     * @param msg datagram buffer
+     * @param rinfo remoteinfo
+     */
+    public receive(socket: TCNetSocketType, msg: Buffer, rinfo: RemoteInfo): void {
+        this.emit("datagram", socket, msg, rinfo);
+
+        if (msg.length < 24) {
+            this.debug("Received datagram without management header");
+            return;
+        }
+
+        if (socket === "broadcast") {
+            this.receiveBroadcast(msg, rinfo);
+        } else if (socket === "unicast") {
+            this.receiveUnicast(msg, rinfo);
+        } else {
+            this.receiveTimestamp(msg, rinfo);
         }
-        return null;
     }
 
     /**
@@ -151,26 +417,36 @@ export class TCNetClient extends EventEmitter {
      * @param rinfo remoteinfo
      */
     private receiveBroadcast(msg: Buffer, rinfo: RemoteInfo): void {
-        const mgmtHeader = new nw.TCNetManagementHeader(msg);
-        mgmtHeader.read();
-        const packet: nw.TCNetPacket | null = this.parsePacket(mgmtHeader);
+        const packet = this.parsePacket(msg);
 
         if (packet) {
+            if (this.isNodePacket(packet) && !this.isOwnPacket(packet)) {
+                this.registry.update(packet, rinfo, this.interfaceName(rinfo.address));
+            }
+            this.receiveMessage(packet, rinfo);
+
             if (packet instanceof nw.TCNetOptOutPacket) {
-                if (mgmtHeader.nodeType == nw.NodeType.Master) {
+                if (packet.header.nodeType == nw.NodeType.Master) {
                     // We received an OptIn packet from a server
-                    if (this.config.debug) console.log("Received optout from current Master");
+                    this.debug("Received optout from current Master");
                     if (this.server?.address == rinfo.address && this.server?.port == packet.nodeListenerPort) {
-                        this.server = null;
+                        this.lostServer();
                     }
                 }
+            } else if (packet instanceof nw.TCNetOptInPacket && packet.header.nodeType == nw.NodeType.Master) {
+                if (this.server === null && this.state !== TCNetConnectionState.Disconnected) {
+                    // A master (re)appeared while we have none, register directly instead of waiting for it
+                    this.sendPacket(this.createOptInPacket(0), "unicast", packet.nodeListenerPort, rinfo.address).catch(
+                        (err) => {
+                            this.debug("Registration at Master failed", err);
+                        },
+                    );
+                }
             }
 
             if (this.connected) {
                 this.emit("broadcast", packet);
             }
-        } else {
-            if (this.config.debug) console.log("Unknown broadcast packet type: " + mgmtHeader.messageType);
         }
     }
 
@@ -181,29 +457,43 @@ export class TCNetClient extends EventEmitter {
      * @param rinfo remoteinfo
      */
     private receiveUnicast(msg: Buffer, rinfo: RemoteInfo): void {
-        const mgmtHeader = new nw.TCNetManagementHeader(msg);
-        mgmtHeader.read();
-        const packet = this.parsePacket(mgmtHeader);
+        const packet = this.parsePacket(msg);
 
         if (packet instanceof nw.TCNetDataPacket) {
-            const dataPacketClass = nw.TCNetDataPackets[packet.dataType];
-            if (dataPacketClass !== null) {
-                const dataPacket: nw.TCNetDataPacket = new dataPacketClass();
-                dataPacket.buffer = msg;
-                dataPacket.header = mgmtHeader;
-                dataPacket.dataType = packet.dataType;
-                dataPacket.layer = packet.layer;
-                dataPacket.read();
-
-                const pendingRequest = this.requests.get(`${dataPacket.dataType}-${dataPacket.layer}`);
-                if (pendingRequest) {
-                    pendingRequest(dataPacket);
+            // Data and File packets, unknown data types are ignored
+            const dataPacket = nw.decodeDataPacket(packet);
+            if (dataPacket) {
+                const key = `${dataPacket.dataType}-${dataPacket.layer}`;
+                let response: nw.TCNetDataPacket | null = dataPacket;
+                if (dataPacket instanceof nw.TCNetDataPacketMultiPart && dataPacket.totalPackets > 1) {
+                    response = this.assembleFragment(key, dataPacket);
+                }
+
+                if (!response) {
+                    return;
+                }
+
+                this.requests.resolve(key, response);
+
+                if (this.connected) {
+                    this.emit("data", response);
                 }
             }
+        } else if (packet instanceof nw.TCNetErrorPacket) {
+            this.receiveError(packet);
+        } else if (packet instanceof nw.TCNetTimeSyncPacket) {
+            if (packet.step == nw.TCNetTimeSyncStep.Response) {
+                this.receiveTimeSync(packet);
+            }
         } else if (packet instanceof nw.TCNetOptInPacket) {
+            this.registry.update(packet, rinfo, this.interfaceName(rinfo.address));
+
             // Received OptIn directly via Unicast --> we are registered at the destination now.
-            if (mgmtHeader.nodeType == nw.NodeType.Master) {
+            if (packet.header.nodeType == nw.NodeType.Master) {
                 // Received OptIn from Master --> registered at Pro DJ Link Bridge or comparable tool
+                if (this.server && this.server.address != rinfo.address) {
+                    this.debug("Master changed to " + rinfo.address);
+                }
                 this.server = rinfo;
                 this.server.port = packet.nodeListenerPort;
                 if (this.connectedHandler) {
@@ -212,70 +502,253 @@ export class TCNetClient extends EventEmitter {
                     this.connectedHandler();
                     this.connectedHandler = null;
                 }
+                if (this.connected && this.state !== TCNetConnectionState.Connected) {
+                    if (this.reconnectTimeout) {
+                        clearTimeout(this.reconnectTimeout);
+                        this.reconnectTimeout = null;
+                    }
+                    this.setState(TCNetConnectionState.Connected);
+                }
             }
-        } else {
-            if (this.config.debug) console.log("Unknown packet type: " + mgmtHeader.messageType);
+        } else if (
+            packet instanceof nw.TCNetTextPacket ||
+            packet instanceof nw.TCNetApplicationDataPacket ||
+            packet instanceof nw.TCNetKeyboardPacket
+        ) {
+            this.receiveMessage(packet, rinfo);
+        } else if (packet) {
+            this.debug("Unexpected packet type on unicast socket: " + packet.header.messageType);
         }
     }
 
     /**
-     * Callback method to receive datagrams on the timestamp socket
-     * @param msg datagram buffer
+     * Emits `text`, `appdata` and `keyboard` events for messages of other nodes
+     *
+     * @param packet received packet
      * @param rinfo remoteinfo
      */
-    private receiveTimestamp(msg: Buffer, _rinfo: RemoteInfo): void {
-        const mgmtHeader = new nw.TCNetManagementHeader(msg);
-        mgmtHeader.read();
-        if (mgmtHeader.messageType !== nw.TCNetMessageType.Time) {
-            if (this.config.debug) console.log("Received non Time packet on Time port");
+    private receiveMessage(packet: nw.TCNetPacket, rinfo: RemoteInfo): void {
+        if (
+            !(
+                packet instanceof nw.TCNetTextPacket ||
+                packet instanceof nw.TCNetApplicationDataPacket ||
+                packet instanceof nw.TCNetKeyboardPacket
+            ) ||
+            this.isOwnPacket(packet) ||
+            !this.connected
+        ) {
             return;
         }
 
-        const packet = this.parsePacket(mgmtHeader);
-        this.emit("time", packet);
+        const sender: TCNetMessageSender = {
+            nodeId: packet.header.nodeId,
+            nodeName: packet.header.nodeName,
+            nodeType: packet.header.nodeType,
+            address: rinfo.address,
+            node: this.registry.node(rinfo.address, packet.header.nodeId) || null,
+        };
+        if (packet instanceof nw.TCNetTextPacket) {
+            this.emit("text", packet.text, sender);
+        } else if (packet instanceof nw.TCNetApplicationDataPacket) {
+            this.emit("appdata", packet.data, sender);
+        } else {
+            this.emit("keyboard", packet.keyCode, packet.modifiers, sender);
+        }
     }
 
     /**
-     * Fill headers of a packet
+     * Matches an Error packet to the pending request it answers
      *
-     * @param packet Packet that needs header information
+     * @param packet received error packet
      */
-    private fillHeader(packet: nw.TCNetPacket): void {
-        packet.header = new nw.TCNetManagementHeader(packet.buffer);
-
-        packet.header.minorVersion = 5;
-        packet.header.nodeId = this.config.nodeId;
-        packet.header.messageType = packet.type();
-        packet.header.nodeName = this.config.nodeName;
-        packet.header.seq = this.seq = (this.seq + 1) % 255;
-        packet.header.nodeType = 0x04;
-        packet.header.nodeOptions = 0;
-        packet.header.timestamp = 0;
+    private receiveError(packet: nw.TCNetErrorPacket): void {
+        if (packet.messageType == nw.TCNetMessageType.Control) {
+            // Control packets are answered in order with an Error packet carrying the result
+            const pendingControl = this.controlRequests.shift();
+            if (pendingControl?.timeout) {
+                clearTimeout(pendingControl.timeout);
+            }
+            if (pendingControl?.timedOut) {
+                // Late reply of a timed out command, must not be taken for the reply of the next command
+                this.debug("Received control reply after timeout", packet);
+            } else if (pendingControl) {
+                if (packet.code == nw.TCNetErrorCode.OK) {
+                    pendingControl.resolve();
+                } else {
+                    pendingControl.reject(new nw.TCNetProtocolError(packet));
+                }
+            }
+        } else if (packet.code != nw.TCNetErrorCode.OK) {
+            const key = `${packet.dataType}-${packet.layer}`;
+            if (this.requests.reject(key, new nw.TCNetProtocolError(packet))) {
+                this.fragments.delete(key);
+            } else {
+                this.debug("Received error without pending request", packet);
+            }
+        }
     }
 
     /**
-     * Generalized method to send packets to a given destination on a given socket
+     * Collects the fragments of a multi-part data packet
      *
-     * @param packet Packet to send
-     * @param socket Socket to send on
-     * @param port Destination Port
-     * @param address Destination Address
+     * Fragments of a different payload (e.g. the track changed) or of an expired set start a new set.
+     *
+     * @param key key of the pending request
+     * @param fragment received fragment
+     * @returns the reassembled packet once all fragments were received, otherwise null
      */
-    private sendPacket(packet: nw.TCNetPacket, socket: Socket, port: number, address: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const buffer = Buffer.alloc(packet.length());
-            packet.buffer = buffer;
-            this.fillHeader(packet);
-
-            packet.header.write();
-            packet.write();
-            socket.send(buffer, port, address, (err) => {
-                if (err) reject(err);
-                resolve();
-            });
+    private assembleFragment(key: string, fragment: nw.TCNetDataPacketMultiPart): nw.TCNetDataPacketMultiPart | null {
+        const now = Date.now();
+        let set = this.fragments.get(key);
+        if (
+            !set ||
+            set.totalPackets !== fragment.totalPackets ||
+            set.dataSize !== fragment.dataSize ||
+            now - set.started > this.config.requestTimeout
+        ) {
+            set = {
+                totalPackets: fragment.totalPackets,
+                dataSize: fragment.dataSize,
+                started: now,
+                fragments: new Map(),
+            };
+            this.fragments.set(key, set);
+        }
+        set.fragments.set(fragment.packetNo, fragment);
+
+        if (set.fragments.size < fragment.totalPackets) {
+            return null;
+        }
+        this.fragments.delete(key);
+
+        const ordered = [...set.fragments.values()].sort((a, b) => a.packetNo - b.packetNo);
+        const packetClass = <typeof nw.TCNetDataPacketMultiPart>fragment.constructor;
+        const packet = new packetClass();
+        packet.buffer = Buffer.concat([
+            ordered[0].buffer.slice(0, nw.TCNetDataPacketMultiPart.DATA_OFFSET),
+            ...ordered.map((el) => el.data()),
+        ]);
+        // The last fragment may be padded, the data size in the header covers the whole payload
+        const size = nw.TCNetDataPacketMultiPart.DATA_OFFSET + fragment.dataSize;
+        if (fragment.dataSize > 0 && size < packet.buffer.length) {
+            packet.buffer = packet.buffer.slice(0, size);
+        }
+        packet.header = ordered[0].header;
+        packet.dataType = fragment.dataType;
+        packet.layer = fragment.layer;
+        packet.read();
+
+        return packet;
+    }
+
+    /**
+     * Drops incomplete multi-part data packets which were started longer than the request timeout ago
+     */
+    private expireFragments(): void {
+        const now = Date.now();
+        this.fragments.forEach((el, key) => {
+            if (now - el.started > this.config.requestTimeout) {
+                this.fragments.delete(key);
+            }
         });
     }
 
+    /**
+     * Calculates the clock offset from a time sync response of the master
+     *
+     * @param packet received time sync response
+     */
+    private receiveTimeSync(packet: nw.TCNetTimeSyncPacket): void {
+        const received = timestamp();
+
+        // The master echoes our request timestamp and sends its own time in the header
+        const roundTripDelay = wrapTimestamp(received - packet.remoteTimestamp);
+        let offset = wrapTimestamp(packet.header.timestamp + roundTripDelay / 2 - received);
+        if (offset >= 0x80000000) {
+            offset -= 0x100000000;
+        }
+
+        this.timeSyncSamples.push({ offset, roundTripDelay });
+        if (this.timeSyncSamples.length > TIME_SYNC_SAMPLES) {
+            this.timeSyncSamples.shift();
+        }
+
+        if (this.connected) {
+            this.emit("timesync", { offset: this.timeOffset(), accuracy: this.timeSyncAccuracy() });
+        }
+    }
+
+    /**
+     * Picks the sample with the lowest round trip delay, as it is least affected by network jitter
+     * @returns best sample or null if not yet synchronized
+     */
+    private bestTimeSyncSample(): TimeSyncSample | null {
+        return this.timeSyncSamples.reduce<TimeSyncSample | null>(
+            (best, el) => (best === null || el.roundTripDelay < best.roundTripDelay ? el : best),
+            null,
+        );
+    }
+
+    /**
+     * Offset of the network clock to the local clock
+     * @returns offset in microseconds
+     */
+    public timeOffset(): number {
+        return this.bestTimeSyncSample()?.offset || 0;
+    }
+
+    /**
+     * Estimated accuracy of the network clock (half of the round trip delay)
+     * @returns accuracy in microseconds or null if not yet synchronized
+     */
+    public timeSyncAccuracy(): number | null {
+        const sample = this.bestTimeSyncSample();
+        return sample ? sample.roundTripDelay / 2 : null;
+    }
+
+    /**
+     * Current time of the network clock, in the format of TCNet timestamps
+     * @returns microseconds, rolling over at 32 bits
+     */
+    public networkTime(): number {
+        return wrapTimestamp(timestamp() + this.timeOffset());
+    }
+
+    /**
+     * Maps a timestamp of the network clock onto the local clock
+     * @param networkTimestamp timestamp received from the network
+     * @returns timestamp of the local clock (see utils.timestamp)
+     */
+    public localTime(networkTimestamp: number): number {
+        return wrapTimestamp(networkTimestamp - this.timeOffset());
+    }
+
+    /**
+     * Sends a time sync request to the master, the response is handled asynchronously
+     */
+    public async syncTime(): Promise<void> {
+        const timeSyncPacket = new nw.TCNetTimeSyncPacket();
+        timeSyncPacket.step = nw.TCNetTimeSyncStep.Initialize;
+        timeSyncPacket.nodeListenerPort = this.config.unicastPort;
+        timeSyncPacket.remoteTimestamp = timestamp();
+
+        await this.sendServer(timeSyncPacket);
+    }
+
+    /**
+     * Callback method to receive datagrams on the timestamp socket
+     * @param msg datagram buffer
+     * @param rinfo remoteinfo
+     */
+    private receiveTimestamp(msg: Buffer, _rinfo: RemoteInfo): void {
+        const packet = this.parsePacket(msg);
+        if (!(packet instanceof nw.TCNetTimePacket)) {
+            this.debug("Received non Time packet on Time port");
+            return;
+        }
+        this.emit("time", packet);
+    }
+
     /**
      * Sends a packet to the discovered server
      * @param packet Packet to send
@@ -285,28 +758,14 @@ export class TCNetClient extends EventEmitter {
             throw new Error("Server not yet discovered");
         }
 
-        await this.sendPacket(packet, this.unicastSocket, this.server.port, this.server.address);
+        await this.sendPacket(packet, "unicast", this.server.port, this.server.address);
     }
 
     /**
      * Called every second to announce our app on the network
      */
     private async announceApp(): Promise<void> {
-        const optInPacket = new nw.TCNetOptInPacket();
-        optInPacket.nodeCount = 0;
-        optInPacket.nodeListenerPort = this.config.unicastPort;
-        optInPacket.uptime = this.uptime++;
-
-        // According to the guide the uptime shall roll over after 12 hours
-        if (this.uptime >= 12 * 60 * 60) {
-            this.uptime = 0;
-        }
-
-        optInPacket.vendorName = this.config.vendorName;
-        optInPacket.appName = this.config.appName;
-        optInPacket.majorVersion = 1;
-        optInPacket.minorVersion = 1;
-        optInPacket.bugVersion = 1;
+        const optInPacket = this.createAnnouncement(0);
         await this.broadcastPacket(optInPacket);
         if (this.server) {
             await this.sendServer(optInPacket);
@@ -319,32 +778,172 @@ export class TCNetClient extends EventEmitter {
      * @param packet packet to broadcast
      */
     public async broadcastPacket(packet: nw.TCNetPacket): Promise<void> {
-        await this.sendPacket(packet, this.broadcastSocket, TCNET_BROADCAST_PORT, this.config.broadcastAddress);
+        // Once a server answered, only announce on the network it was found on
+        const masterInterface = this.masterInterface();
+        const masterAddress = masterInterface ? interfaceBindAddress(masterInterface) : null;
+        const addresses =
+            masterAddress && this.broadcastAddresses.includes(masterAddress)
+                ? [masterAddress]
+                : this.broadcastAddresses;
+
+        for (const address of addresses) {
+            await this.sendPacket(packet, "broadcast", TCNET_BROADCAST_PORT, address);
+        }
+    }
+
+    /**
+     * Name of the interface a remote address is reachable on
+     * @param address remote address
+     * @returns interface name or null if not known
+     */
+    private interfaceName(address: string): string | null {
+        return findInterface(address, this._interfaces)?.name || null;
     }
 
     /**
      * Sends a request packet to the discovered server
      *
+     * Concurrent requests for the same data type and layer share one request on the network.
+     *
      * @param dataType requested data type
      * @param layer requested layer
+     * @param options timeout, retries and abort signal of the request
      * @returns Promise to wait for answer on request
      */
-    public requestData(dataType: number, layer: number): Promise<nw.TCNetDataPacket> {
-        return new Promise((resolve, reject) => {
-            const request = new nw.TCNetRequestPacket();
-            request.dataType = dataType;
-            request.layer = layer;
+    public requestData(dataType: number, layer: number, options?: TCNetRequestOptions): Promise<nw.TCNetDataPacket> {
+        return this.requests.request(
+            dataType,
+            layer,
+            options?.timeout ?? this.config.requestTimeout,
+            options?.retries ?? this.config.requestRetries,
+            options?.signal,
+        );
+    }
 
-            this.requests.set(`${dataType}-${layer}`, resolve);
+    /**
+     * Sends a single request packet, called by the request manager
+     *
+     * @param dataType requested data type
+     * @param layer requested layer
+     */
+    private async sendRequest(dataType: number, layer: number): Promise<void> {
+        const request = new nw.TCNetRequestPacket();
+        request.dataType = dataType;
+        request.layer = layer;
+
+        this.fragments.delete(`${dataType}-${layer}`);
+        await this.sendServer(request);
+    }
 
-            setTimeout(() => {
-                if (this.requests.delete(`${dataType}-${layer}`)) {
-                    reject(new Error("Timeout while requesting data"));
+    /**
+     * Sends a text message to a node or all nodes
+     *
+     * @param target node to send to, null to broadcast to all nodes
+     * @param text text to send
+     */
+    public async sendText(target: TCNetNode | null, text: string): Promise<void> {
+        const packet = new nw.TCNetTextPacket();
+        packet.step = 0;
+        packet.text = text;
+        await this.sendMessage(target, packet);
+    }
+
+    /**
+     * Sends application specific data to a node or all nodes
+     *
+     * The data is sent in a single packet and is therefore limited to the size of a UDP datagram
+     *
+     * @param target node to send to, null to broadcast to all nodes
+     * @param data data to send
+     */
+    public async sendApplicationData(target: TCNetNode | null, data: Buffer): Promise<void> {
+        const packet = new nw.TCNetApplicationDataPacket();
+        packet.dataIdentifier1 = 0;
+        packet.dataIdentifier2 = 0;
+        packet.totalPackets = 1;
+        packet.packetNo = 1;
+        packet.packetSignature = 0;
+        packet.data = data;
+        if (packet.length() > MAX_DATAGRAM_SIZE) {
+            throw new Error(
+                `Application data of ${data.length} bytes exceeds the maximum of ${MAX_DATAGRAM_SIZE - 42} bytes`,
+            );
+        }
+        await this.sendMessage(target, packet);
+    }
+
+    /**
+     * Sends a key event to a node, e.g. to trigger a shortcut
+     *
+     * @param target node to send to
+     * @param keyCode code of the pressed key
+     * @param modifiers pressed modifier keys, combined TCNetKeyModifier flags
+     */
+    public async sendKey(
+        target: TCNetNode,
+        keyCode: number,
+        modifiers: number = nw.TCNetKeyModifier.None,
+    ): Promise<void> {
+        const packet = new nw.TCNetKeyboardPacket();
+        packet.keyCode = keyCode;
+        packet.modifiers = modifiers;
+        await this.sendMessage(target, packet);
+    }
+
+    /**
+     * Sends a message packet to a node or broadcasts it
+     *
+     * @param target node to send to, null to broadcast to all nodes
+     * @param packet packet to send
+     */
+    private async sendMessage(target: TCNetNode | null, packet: nw.TCNetPacket): Promise<void> {
+        if (target) {
+            await this.sendPacket(packet, "unicast", target.listenerPort, target.address);
+        } else {
+            await this.broadcastPacket(packet);
+        }
+    }
+
+    /**
+     * Sends a control command to the discovered server
+     *
+     * @param controlPath control command, e.g. "layer/1/stop"
+     * @returns Promise which resolves once the server acknowledged the command
+     */
+    public sendControl(controlPath: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const control = new nw.TCNetControlPacket();
+            control.step = 0;
+            control.controlPath = controlPath;
+
+            const pendingControl: STORED_CONTROL = { resolve, reject, timedOut: false, timeout: null };
+            const removePending = (): boolean => {
+                const idx = this.controlRequests.indexOf(pendingControl);
+                if (idx === -1) {
+                    return false;
+                }
+                this.controlRequests.splice(idx, 1);
+                if (pendingControl.timeout) {
+                    clearTimeout(pendingControl.timeout);
+                    pendingControl.timeout = null;
                 }
+                return true;
+            };
+            this.controlRequests.push(pendingControl);
+
+            pendingControl.timeout = setTimeout(() => {
+                pendingControl.timedOut = true;
+                reject(new Error("Timeout while sending control"));
+
+                // Keep the slot for a late reply, replies are only matched by their order
+                pendingControl.timeout = setTimeout(() => {
+                    pendingControl.timeout = null;
+                    removePending();
+                }, this.config.requestTimeout);
             }, this.config.requestTimeout);
 
-            this.sendServer(request).catch((err) => {
-                this.requests.delete(`${dataType}-${layer}`);
+            this.sendServer(control).catch((err) => {
+                removePending();
                 reject(err);
             });
         });
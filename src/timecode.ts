@@ -0,0 +1,410 @@
+import EventEmitter = require("events");
+import { LayerClock } from "./clock";
+import { PioneerDJTCClient, LayerIndex } from "./pioneer";
+import { TCNetTimecodeState } from "./network";
+
+/**
+ * SMPTE frame rates
+ */
+export enum TimecodeFrameRate {
+    FPS24 = 24,
+    FPS25 = 25,
+    FPS2997DF = 29.97,
+    FPS30 = 30,
+}
+
+/**
+ * SMPTE timecode
+ */
+export type SMPTETimecode = {
+    hours: number;
+    minutes: number;
+    seconds: number;
+    frames: number;
+};
+
+/**
+ * Rate codes used in MTC messages
+ */
+const MTC_RATE_CODES: Record<TimecodeFrameRate, number> = {
+    [TimecodeFrameRate.FPS24]: 0,
+    [TimecodeFrameRate.FPS25]: 1,
+    [TimecodeFrameRate.FPS2997DF]: 2,
+    [TimecodeFrameRate.FPS30]: 3,
+};
+
+/**
+ * Sync word at the end of every LTC frame (bits 64-79)
+ */
+const LTC_SYNC_WORD = [0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1];
+
+/**
+ * Number of frames per second counted in the timecode, 30 for drop frame
+ * @param rate frame rate
+ * @returns nominal frames per second
+ */
+function nominalFrames(rate: TimecodeFrameRate): number {
+    return rate == TimecodeFrameRate.FPS2997DF ? 30 : rate;
+}
+
+/**
+ * Actual number of frames per second
+ * @param rate frame rate
+ * @returns frames per second
+ */
+function framesPerSecond(rate: TimecodeFrameRate): number {
+    return rate == TimecodeFrameRate.FPS2997DF ? 30000 / 1001 : rate;
+}
+
+/**
+ * Number of the frame at a time
+ * @param time time in milliseconds
+ * @param rate frame rate
+ * @returns frame number, starting at 0
+ */
+export function frameFromTime(time: number, rate: TimecodeFrameRate): number {
+    return Math.floor((Math.max(0, time) * framesPerSecond(rate)) / 1000);
+}
+
+/**
+ * Converts a frame number to timecode, skipping frame numbers 0 and 1 of every minute except every tenth minute for
+ * drop frame timecode
+ * @param frame frame number, starting at 0
+ * @param rate frame rate
+ * @returns timecode, wrapping after 24 hours
+ */
+export function timecodeFromFrame(frame: number, rate: TimecodeFrameRate): SMPTETimecode {
+    const fps = nominalFrames(rate);
+
+    if (rate == TimecodeFrameRate.FPS2997DF) {
+        // 17982 frames per 10 minutes, 1798 frames per dropped minute
+        const tenMinutes = Math.floor(frame / 17982);
+        const remainder = frame % 17982;
+        frame += 18 * tenMinutes + (remainder < 2 ? 0 : 2 * Math.floor((remainder - 2) / 1798));
+    }
+
+    return {
+        hours: Math.floor(frame / (fps * 3600)) % 24,
+        minutes: Math.floor(frame / (fps * 60)) % 60,
+        seconds: Math.floor(frame / fps) % 60,
+        frames: frame % fps,
+    };
+}
+
+/**
+ * Converts a time to timecode
+ * @param time time in milliseconds
+ * @param rate frame rate
+ * @returns timecode
+ */
+export function timecodeFromTime(time: number, rate: TimecodeFrameRate): SMPTETimecode {
+    return timecodeFromFrame(frameFromTime(time, rate), rate);
+}
+
+/**
+ * Converts a timecode to a time
+ * @param timecode timecode
+ * @param rate frame rate
+ * @returns time in milliseconds
+ */
+export function timeFromTimecode(timecode: SMPTETimecode, rate: TimecodeFrameRate): number {
+    const fps = nominalFrames(rate);
+    let frame = ((timecode.hours * 60 + timecode.minutes) * 60 + timecode.seconds) * fps + timecode.frames;
+
+    if (rate == TimecodeFrameRate.FPS2997DF) {
+        const minutes = timecode.hours * 60 + timecode.minutes;
+        frame -= 2 * (minutes - Math.floor(minutes / 10));
+    }
+
+    return (frame * 1000) / framesPerSecond(rate);
+}
+
+/**
+ * Creates a MTC full frame message, used to locate receivers
+ * @param timecode timecode
+ * @param rate frame rate
+ * @returns sysex message
+ */
+export function mtcFullFrame(timecode: SMPTETimecode, rate: TimecodeFrameRate): Buffer {
+    return Buffer.from([
+        0xf0,
+        0x7f,
+        0x7f,
+        0x01,
+        0x01,
+        (MTC_RATE_CODES[rate] << 5) | timecode.hours,
+        timecode.minutes,
+        timecode.seconds,
+        timecode.frames,
+        0xf7,
+    ]);
+}
+
+/**
+ * Creates a MTC quarter frame message, eight consecutive messages (piece 0-7) transmit a full timecode over two frames
+ * @param timecode timecode
+ * @param rate frame rate
+ * @param piece piece of the timecode (0-7)
+ * @returns quarter frame message
+ */
+export function mtcQuarterFrame(timecode: SMPTETimecode, rate: TimecodeFrameRate, piece: number): Buffer {
+    const values = [
+        timecode.frames & 0x0f,
+        timecode.frames >> 4,
+        timecode.seconds & 0x0f,
+        timecode.seconds >> 4,
+        timecode.minutes & 0x0f,
+        timecode.minutes >> 4,
+        timecode.hours & 0x0f,
+        (timecode.hours >> 4) | (MTC_RATE_CODES[rate] << 1),
+    ];
+    return Buffer.from([0xf1, (piece << 4) | values[piece]]);
+}
+
+/**
+ * Encodes timecode as LTC audio using biphase mark code
+ */
+export class LTCEncoder {
+    private rate: TimecodeFrameRate;
+    private sampleRate: number;
+    private amplitude: number;
+    private level = 1;
+    private sampleRemainder = 0;
+
+    /**
+     *
+     * @param rate frame rate
+     * @param sampleRate audio sample rate
+     * @param amplitude amplitude of the signal (0-1)
+     */
+    constructor(rate: TimecodeFrameRate, sampleRate = 48000, amplitude = 0.5) {
+        this.rate = rate;
+        this.sampleRate = sampleRate;
+        this.amplitude = amplitude;
+    }
+
+    /**
+     * Encodes one frame, consecutive frames continue the signal of the previous frame
+     * @param timecode timecode of the frame
+     * @returns mono signed 16 bit little endian samples
+     */
+    encode(timecode: SMPTETimecode): Buffer {
+        // Non-integer samples per frame (29.97 fps) are carried over to the next frame
+        const exactSamples = this.sampleRate / framesPerSecond(this.rate) + this.sampleRemainder;
+        const samples = Math.floor(exactSamples);
+        this.sampleRemainder = exactSamples - samples;
+
+        const bits = this.bits(timecode);
+        const buffer = Buffer.alloc(samples * 2);
+        const value = Math.round(this.amplitude * 0x7fff);
+
+        let previousBit = -1;
+        let previousHalf = 0;
+        for (let n = 0; n < samples; n++) {
+            const halfBit = Math.floor((n * bits.length * 2) / samples);
+            const bit = halfBit >> 1;
+            const half = halfBit & 1;
+
+            // Transition at the start of every bit and in the middle of every 1 bit
+            if (bit != previousBit || (half != previousHalf && bits[bit])) {
+                this.level = -this.level;
+            }
+            previousBit = bit;
+            previousHalf = half;
+            buffer.writeInt16LE(this.level * value, n * 2);
+        }
+
+        return buffer;
+    }
+
+    /**
+     * Creates the 80 bits of a LTC frame, user bits are zero
+     * @param timecode timecode of the frame
+     * @returns bits, least significant bit first
+     */
+    private bits(timecode: SMPTETimecode): number[] {
+        const bits: number[] = new Array(80).fill(0);
+        const write = (value: number, offset: number, length: number): void => {
+            for (let n = 0; n < length; n++) {
+                bits[offset + n] = (value >> n) & 1;
+            }
+        };
+
+        write(timecode.frames % 10, 0, 4);
+        write(Math.floor(timecode.frames / 10), 8, 2);
+        write(this.rate == TimecodeFrameRate.FPS2997DF ? 1 : 0, 10, 1);
+        write(timecode.seconds % 10, 16, 4);
+        write(Math.floor(timecode.seconds / 10), 24, 3);
+        write(timecode.minutes % 10, 32, 4);
+        write(Math.floor(timecode.minutes / 10), 40, 3);
+        write(timecode.hours % 10, 48, 4);
+        write(Math.floor(timecode.hours / 10), 56, 2);
+        LTC_SYNC_WORD.forEach((el, idx) => {
+            bits[64 + idx] = el;
+        });
+
+        // Polarity correction bit keeps the number of transitions per frame even
+        const polarityBit = this.rate == TimecodeFrameRate.FPS25 ? 59 : 27;
+        bits[polarityBit] = bits.reduce((sum, el) => sum + el, 0) % 2;
+
+        return bits;
+    }
+}
+
+/**
+ * Configuration of the timecode generator
+ */
+export class TimecodeGeneratorConfiguration {
+    layer = LayerIndex.Layer1;
+    frameRate = TimecodeFrameRate.FPS25;
+    source: "time" | "timecode" = "time";
+    mtc = true;
+    ltc = false;
+    sampleRate = 48000;
+    amplitude = 0.5;
+}
+
+/**
+ * Generates MTC and LTC from the position or timecode of a layer
+ *
+ * With the "time" source, the interpolated position of the layer is converted to timecode. With the "timecode" source,
+ * the timecode sent by the server for the layer is used.
+ *
+ * Emits `timecode` with every new frame, `mtc` with MIDI messages (quarter frames while playing, a full frame after
+ * locating) and `ltc` with audio samples for every frame while playing.
+ */
+export class TimecodeGenerator extends EventEmitter {
+    private client: PioneerDJTCClient;
+    private config: TimecodeGeneratorConfiguration;
+    private clock: LayerClock;
+    private encoder: LTCEncoder;
+    private interval: NodeJS.Timeout | null = null;
+    private lastFrame: number | null = null;
+    private quarterFrameTime: number | null = null;
+    private quarterFramePiece = 0;
+    private quarterFrameTimecode: SMPTETimecode | null = null;
+
+    /**
+     *
+     * @param client client to receive the layer from
+     * @param config configuration of the generator
+     */
+    constructor(client: PioneerDJTCClient, config?: TimecodeGeneratorConfiguration) {
+        super();
+        this.client = client;
+        this.config = config || new TimecodeGeneratorConfiguration();
+        this.clock = new LayerClock(client, 0);
+        this.encoder = new LTCEncoder(this.config.frameRate, this.config.sampleRate, this.config.amplitude);
+    }
+
+    /**
+     * Starts generating timecode
+     */
+    start(): void {
+        this.stop();
+        this.clock.start();
+
+        // Check at least once per quarter frame
+        const period = Math.max(1, Math.floor(1000 / framesPerSecond(this.config.frameRate) / 4));
+        this.interval = setInterval(() => this.update(Date.now()), period);
+    }
+
+    /**
+     * Stops generating timecode
+     */
+    stop(): void {
+        this.clock.stop();
+        if (this.interval) {
+            clearInterval(this.interval);
+            this.interval = null;
+        }
+        this.lastFrame = null;
+        this.quarterFrameTime = null;
+    }
+
+    /**
+     * Current position of the layer
+     * @param now local time in milliseconds
+     * @returns position in milliseconds and whether the layer is playing, null if unknown
+     */
+    private current(now: number): { position: number; playing: boolean } | null {
+        if (this.config.source == "timecode") {
+            const timecode = this.client.state().layer(this.config.layer).timecode;
+            if (!timecode) {
+                return null;
+            }
+            return {
+                position: timeFromTimecode(timecode, this.config.frameRate),
+                playing: timecode.state == TCNetTimecodeState.Running,
+            };
+        }
+
+        const position = this.clock.positions(now).find((el) => el.layer == this.config.layer);
+        return position || null;
+    }
+
+    /**
+     * Emits messages for all frames and quarter frames due since the last update
+     * @param now local time in milliseconds
+     */
+    private update(now: number): void {
+        const current = this.current(now);
+        if (!current) {
+            return;
+        }
+
+        const rate = this.config.frameRate;
+        const frame = frameFromTime(current.position, rate);
+        if (frame !== this.lastFrame) {
+            const previous = this.lastFrame;
+            const timecode = timecodeFromFrame(frame, rate);
+            const located = previous === null || !current.playing || frame < previous || frame > previous + 2;
+            this.lastFrame = frame;
+            this.emit("timecode", timecode);
+
+            if (located) {
+                this.quarterFrameTime = null;
+                if (this.config.mtc) {
+                    this.emit("mtc", mtcFullFrame(timecode, rate));
+                }
+            }
+            if (this.config.ltc && current.playing) {
+                // Frames skipped due to timer jitter are still encoded to keep the audio continuous
+                const first = located || previous === null ? frame : previous + 1;
+                for (let n = first; n <= frame; n++) {
+                    this.emit("ltc", this.encoder.encode(timecodeFromFrame(n, rate)));
+                }
+            }
+        }
+
+        if (this.config.mtc && current.playing) {
+            this.sendQuarterFrames(now, timecodeFromFrame(frame, rate));
+        } else {
+            this.quarterFrameTime = null;
+        }
+    }
+
+    /**
+     * Emits all quarter frames due since the last update
+     * @param now local time in milliseconds
+     * @param timecode current timecode
+     */
+    private sendQuarterFrames(now: number, timecode: SMPTETimecode): void {
+        const duration = 1000 / framesPerSecond(this.config.frameRate) / 4;
+
+        // Start a new sequence after locating or if the timer fell behind by more than a full sequence
+        if (this.quarterFrameTime === null || now - this.quarterFrameTime > 8 * duration) {
+            this.quarterFrameTime = now;
+            this.quarterFramePiece = 0;
+        }
+
+        while (this.quarterFrameTime <= now) {
+            if (this.quarterFramePiece == 0 || !this.quarterFrameTimecode) {
+                this.quarterFrameTimecode = timecode;
+            }
+            this.emit("mtc", mtcQuarterFrame(this.quarterFrameTimecode, this.config.frameRate, this.quarterFramePiece));
+            this.quarterFramePiece = (this.quarterFramePiece + 1) % 8;
+            this.quarterFrameTime += duration;
+        }
+    }
+}
@@ -0,0 +1,244 @@
+import { Socket, createSocket, RemoteInfo } from "dgram";
+import { bindSocket } from "./utils";
+
+export const TCNET_BROADCAST_PORT = 60000;
+export const TCNET_TIMESTAMP_PORT = 60001;
+
+export type TCNetSocketType = "broadcast" | "unicast" | "timestamp";
+
+/**
+ * Callback for datagrams received by a transport
+ */
+export type TCNetReceiver = (socket: TCNetSocketType, msg: Buffer, rinfo: RemoteInfo) => void;
+
+/**
+ * Options for opening a transport
+ */
+export type TCNetTransportOptions = {
+    broadcastAddresses: string[];
+    unicastPort: number;
+    receiveTimestamp: boolean;
+};
+
+/**
+ * Transport carrying TCNet datagrams, one per client or server
+ */
+export interface TCNetTransport {
+    /**
+     * Opens the broadcast, timestamp and unicast sockets
+     * @param options addresses and ports to use
+     * @param receiver called for every received datagram
+     */
+    open(options: TCNetTransportOptions, receiver: TCNetReceiver): Promise<void>;
+
+    /**
+     * Sends a datagram from one of the sockets
+     * @param socket socket to send from
+     * @param msg datagram buffer
+     * @param port destination port
+     * @param address destination address
+     */
+    send(socket: TCNetSocketType, msg: Buffer, port: number, address: string): Promise<void>;
+
+    /**
+     * Closes all sockets, the transport can be opened again afterwards
+     */
+    close(): void;
+}
+
+/**
+ * Transport using UDP sockets, used by default
+ */
+export class TCNetUDPTransport implements TCNetTransport {
+    private broadcastSockets: Map<string, Socket> = new Map();
+    private timestampSockets: Map<string, Socket> = new Map();
+    private unicastSocket: Socket | null = null;
+
+    async open(options: TCNetTransportOptions, receiver: TCNetReceiver): Promise<void> {
+        // Broadcast and timestamp sockets are bound per broadcast address, so several networks can be used at once
+        for (const address of options.broadcastAddresses) {
+            const broadcastSocket = createSocket({ type: "udp4", reuseAddr: true }, (msg, rinfo) =>
+                receiver("broadcast", msg, rinfo),
+            );
+            this.broadcastSockets.set(address, broadcastSocket);
+            await bindSocket(broadcastSocket, TCNET_BROADCAST_PORT, address);
+            broadcastSocket.setBroadcast(true);
+
+            if (options.receiveTimestamp) {
+                const timestampSocket = createSocket({ type: "udp4", reuseAddr: true }, (msg, rinfo) =>
+                    receiver("timestamp", msg, rinfo),
+                );
+                this.timestampSockets.set(address, timestampSocket);
+                await bindSocket(timestampSocket, TCNET_TIMESTAMP_PORT, address);
+                timestampSocket.setBroadcast(true);
+            }
+        }
+
+        if (!options.receiveTimestamp) {
+            // Only sending, do not take timestamp datagrams away from clients on the same host
+            const timestampSocket = createSocket({ type: "udp4", reuseAddr: true });
+            this.timestampSockets.set("0.0.0.0", timestampSocket);
+            await bindSocket(timestampSocket, 0, "0.0.0.0");
+            timestampSocket.setBroadcast(true);
+        }
+
+        this.unicastSocket = createSocket({ type: "udp4", reuseAddr: false }, (msg, rinfo) =>
+            receiver("unicast", msg, rinfo),
+        );
+        await bindSocket(this.unicastSocket, options.unicastPort, "0.0.0.0");
+    }
+
+    send(socket: TCNetSocketType, msg: Buffer, port: number, address: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            let udpSocket: Socket | null | undefined = this.unicastSocket;
+            if (socket !== "unicast") {
+                // Prefer the socket bound to the destination address
+                const sockets = socket === "broadcast" ? this.broadcastSockets : this.timestampSockets;
+                udpSocket = sockets.get(address) || sockets.values().next().value;
+            }
+            if (!udpSocket) {
+                reject(new Error("Transport is not open"));
+                return;
+            }
+
+            udpSocket.send(msg, port, address, (err) => {
+                if (err) reject(err);
+                resolve();
+            });
+        });
+    }
+
+    close(): void {
+        this.broadcastSockets.forEach((el) => el.close());
+        this.timestampSockets.forEach((el) => el.close());
+        this.unicastSocket?.close();
+        this.broadcastSockets.clear();
+        this.timestampSockets.clear();
+        this.unicastSocket = null;
+    }
+}
+
+/**
+ * In-memory network connecting loopback transports, e.g. for testing without binding ports
+ *
+ * Datagrams sent to the address of a transport are delivered to that transport only, datagrams sent to any other
+ * address are delivered to all transports like a broadcast.
+ */
+export class TCNetLoopbackNetwork {
+    private transports: Set<TCNetLoopbackTransport> = new Set();
+
+    /**
+     * Adds an opened transport to the network
+     * @param transport transport to add
+     */
+    attach(transport: TCNetLoopbackTransport): void {
+        this.transports.add(transport);
+    }
+
+    /**
+     * Removes a closed transport from the network
+     * @param transport transport to remove
+     */
+    detach(transport: TCNetLoopbackTransport): void {
+        this.transports.delete(transport);
+    }
+
+    /**
+     * Delivers a datagram asynchronously to all matching transports
+     * @param from sending transport
+     * @param socket socket the datagram was sent from
+     * @param msg datagram buffer
+     * @param port destination port
+     * @param address destination address
+     */
+    deliver(from: TCNetLoopbackTransport, socket: TCNetSocketType, msg: Buffer, port: number, address: string): void {
+        const unicast = [...this.transports].some((el) => el.address === address);
+        const rinfo: RemoteInfo = {
+            address: from.address,
+            port: from.port(socket),
+            family: "IPv4",
+            size: msg.length,
+        };
+
+        for (const transport of this.transports) {
+            if (!unicast || transport.address === address) {
+                // Copy the datagram, the sender may reuse its buffer
+                const data = Buffer.from(msg);
+                setImmediate(() => transport.receive(port, data, rinfo));
+            }
+        }
+    }
+}
+
+/**
+ * Transport sending datagrams over an in-memory network
+ */
+export class TCNetLoopbackTransport implements TCNetTransport {
+    readonly address: string;
+    private network: TCNetLoopbackNetwork;
+    private options: TCNetTransportOptions | null = null;
+    private receiver: TCNetReceiver | null = null;
+
+    /**
+     *
+     * @param network network to connect to
+     * @param address address of this transport on the network
+     */
+    constructor(network: TCNetLoopbackNetwork, address = "127.0.0.1") {
+        this.network = network;
+        this.address = address;
+    }
+
+    async open(options: TCNetTransportOptions, receiver: TCNetReceiver): Promise<void> {
+        this.options = options;
+        this.receiver = receiver;
+        this.network.attach(this);
+    }
+
+    async send(socket: TCNetSocketType, msg: Buffer, port: number, address: string): Promise<void> {
+        if (!this.options) {
+            throw new Error("Transport is not open");
+        }
+        this.network.deliver(this, socket, msg, port, address);
+    }
+
+    close(): void {
+        this.network.detach(this);
+        this.options = null;
+        this.receiver = null;
+    }
+
+    /**
+     * Port a socket of this transport is bound to
+     * @param socket socket
+     * @returns port
+     */
+    port(socket: TCNetSocketType): number {
+        if (socket === "broadcast") {
+            return TCNET_BROADCAST_PORT;
+        } else if (socket === "timestamp") {
+            return TCNET_TIMESTAMP_PORT;
+        }
+        return this.options ? this.options.unicastPort : 0;
+    }
+
+    /**
+     * Receives a datagram from the network on the socket bound to the destination port
+     * @param port destination port
+     * @param msg datagram buffer
+     * @param rinfo sender
+     */
+    receive(port: number, msg: Buffer, rinfo: RemoteInfo): void {
+        if (!this.options || !this.receiver) {
+            return;
+        }
+
+        if (port === TCNET_BROADCAST_PORT) {
+            this.receiver("broadcast", msg, rinfo);
+        } else if (port === TCNET_TIMESTAMP_PORT && this.options.receiveTimestamp) {
+            this.receiver("timestamp", msg, rinfo);
+        } else if (port === this.options.unicastPort) {
+            this.receiver("unicast", msg, rinfo);
+        }
+    }
+}
@@ -1,4 +1,5 @@
 import * as broadcastAddress from "broadcast-address";
+import { Socket } from "dgram";
 import { networkInterfaces, platform } from "os";
 
 export function interfaceAddress(ifname: string): string {
@@ -20,3 +21,109 @@ export function interfaceAddress(ifname: string): string {
         return broadcastAddress(ifname);
     }
 }
+
+/**
+ * IPv4 network interface of this host
+ */
+export type TCNetInterface = {
+    name: string;
+    address: string;
+    netmask: string;
+    broadcastAddress: string;
+};
+
+/**
+ * Converts an IPv4 address to a number
+ * @param address dotted address
+ * @returns address as unsigned 32 bit number
+ */
+function addressToNumber(address: string): number {
+    return address.split(".").reduce((value, el) => ((value << 8) | Number(el)) >>> 0, 0);
+}
+
+/**
+ * Lists the IPv4 interfaces of this host
+ * @param includeInternal whether to list internal interfaces like the loopback interface as well
+ * @returns interfaces
+ */
+export function listInterfaces(includeInternal = false): TCNetInterface[] {
+    const interfaces: TCNetInterface[] = [];
+
+    for (const [name, addresses] of Object.entries(networkInterfaces())) {
+        for (const el of addresses || []) {
+            if (el.family !== "IPv4" || (el.internal && !includeInternal)) {
+                continue;
+            }
+
+            const broadcast = (addressToNumber(el.address) | ~addressToNumber(el.netmask)) >>> 0;
+            interfaces.push({
+                name,
+                address: el.address,
+                netmask: el.netmask,
+                broadcastAddress: [24, 16, 8, 0].map((shift) => (broadcast >>> shift) & 0xff).join("."),
+            });
+        }
+    }
+
+    return interfaces;
+}
+
+/**
+ * Address to bind to and broadcast to for an interface, the interface address on Windows
+ * @param intf interface
+ * @returns address
+ */
+export function interfaceBindAddress(intf: TCNetInterface): string {
+    return platform() === "win32" ? intf.address : intf.broadcastAddress;
+}
+
+/**
+ * Finds the interface on whose subnet an address is
+ * @param address address of a remote node
+ * @param interfaces interfaces to search
+ * @returns interface or null if the address is on none of the subnets
+ */
+export function findInterface(address: string, interfaces: TCNetInterface[]): TCNetInterface | null {
+    const remote = addressToNumber(address);
+    const intf = interfaces.find((el) => {
+        const netmask = addressToNumber(el.netmask);
+        return (remote & netmask) >>> 0 === (addressToNumber(el.address) & netmask) >>> 0;
+    });
+    return intf || null;
+}
+
+/**
+ * Current time of the local clock in the format of TCNet timestamps
+ * @returns microseconds, rolling over at 32 bits
+ */
+export function timestamp(): number {
+    const [seconds, nanoseconds] = process.hrtime();
+    return wrapTimestamp(seconds * 1000000 + Math.floor(nanoseconds / 1000));
+}
+
+/**
+ * Wraps a value into the 32 bit range of TCNet timestamps
+ * @param value value in microseconds
+ * @returns value rolled over at 32 bits
+ */
+export function wrapTimestamp(value: number): number {
+    return ((value % 0x100000000) + 0x100000000) % 0x100000000;
+}
+
+/**
+ * Wrapper method to bind a socket with a Promise
+ * @param socket socket to bind
+ * @param port port to bind to
+ * @param address address to bind to
+ * @returns Promise which always resolves (no errors in callback)
+ */
+export function bindSocket(socket: Socket, port: number, address: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        socket.once("error", reject);
+
+        socket.bind(port, address, () => {
+            socket.removeListener("error", reject);
+            resolve();
+        });
+    });
+}
@@ -0,0 +1,41 @@
+import * as assert from "assert";
+import { RemoteInfo } from "dgram";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promises } from "fs";
+import * as nw from "../src/network";
+import { TCNetClient } from "../src/tcnet";
+import { TCNetRecorder, TCNetReplayer, readCapture } from "../src/capture";
+import { test } from "./harness";
+import { encodePacket, optInPacket } from "./fixtures";
+
+test("recorded datagrams are replayed into a client", async () => {
+    const path = join(tmpdir(), `tcnet-capture-${process.pid}.jsonl`);
+    const rinfo: RemoteInfo = { address: "10.0.0.1", port: 60000, family: "IPv4", size: 0 };
+
+    const source = new TCNetClient();
+    source.connectOffline();
+    const recorder = new TCNetRecorder(source, path);
+    recorder.start();
+    source.receive("broadcast", encodePacket(optInPacket(65023)), rinfo);
+    source.receive("broadcast", encodePacket(optInPacket(65024)), rinfo);
+    await recorder.stop();
+
+    const frames = await readCapture(path);
+    await promises.unlink(path);
+    assert.strictEqual(frames.length, 2);
+    assert.strictEqual(frames[0].socket, "broadcast");
+    assert.strictEqual(frames[0].address, "10.0.0.1");
+    assert.strictEqual(frames[0].messageType, nw.TCNetMessageType.OptIn);
+
+    const target = new TCNetClient();
+    target.connectOffline();
+    const ports: number[] = [];
+    target.on("broadcast", (packet: nw.TCNetPacket) => {
+        if (packet instanceof nw.TCNetOptInPacket) {
+            ports.push(packet.nodeListenerPort);
+        }
+    });
+    await new TCNetReplayer(frames, target, 100).start();
+    assert.deepStrictEqual(ports, [65023, 65024]);
+});
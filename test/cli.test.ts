@@ -0,0 +1,29 @@
+import * as assert from "assert";
+import { spawnSync } from "child_process";
+import * as path from "path";
+import { test } from "./harness";
+
+/**
+ * Runs the command line tool
+ * @param args command line arguments
+ * @returns exit code and output on stderr
+ */
+function cli(args: string[]): { status: number | null; stderr: string } {
+    const result = spawnSync(process.execPath, [path.join(__dirname, "../src/cli.js"), ...args], {
+        encoding: "utf8",
+        timeout: 10000,
+    });
+    return { status: result.status, stderr: result.stderr };
+}
+
+test("command line accepts only the documented options", () => {
+    for (const option of ["--transport", "--node-id", "--connect-retries", "--constructor", "--to-string"]) {
+        const result = cli(["nodes", option, "x"]);
+        assert.strictEqual(result.status, 1, option);
+        assert.strictEqual(result.stderr.trim(), `Unknown option ${option}`);
+    }
+
+    const result = cli(["nodes", "--unicast-port", "port"]);
+    assert.strictEqual(result.status, 1);
+    assert.strictEqual(result.stderr.trim(), "Option --unicast-port requires a number");
+});
@@ -0,0 +1,111 @@
+import * as assert from "assert";
+import * as nw from "../src/network";
+import { LayerClock } from "../src/clock";
+import { PioneerDJTCClient } from "../src/pioneer";
+import { test } from "./harness";
+
+/**
+ * Creates a Time packet
+ * @param position current time of layer 1
+ * @param status state of layer 1, all other layers are idle
+ * @returns time packet
+ */
+function timePacket(position: number, status: nw.TCNetLayerStatus): nw.TCNetTimePacket {
+    const time = new nw.TCNetTimePacket();
+    for (let n = 0; n < 8; n++) {
+        time.layerCurrentTime[n] = 0;
+        time.layerTotalTime[n] = 0;
+        time.layerBeatmarker[n] = 0;
+        time.layerState[n] = nw.TCNetLayerStatus.IDLE;
+        time.layerTimecode[n] = new nw.TCNetTimecode();
+        time.layerTimecode[n].read(Buffer.alloc(6), 0);
+    }
+    time.layerCurrentTime[0] = position;
+    time.layerTotalTime[0] = 60000;
+    time.layerState[0] = status;
+    return time;
+}
+
+/**
+ * Creates a client and a clock following it, without ticks
+ * @returns client and started clock
+ */
+function clock(): { client: PioneerDJTCClient; clock: LayerClock } {
+    const client = new PioneerDJTCClient();
+    client.connectOffline();
+    const layerClock = new LayerClock(client, 0);
+    layerClock.start();
+    return { client, clock: layerClock };
+}
+
+/**
+ * Asserts that a position is close to the expected one, allowing for the time passed while the test runs
+ * @param actual interpolated position
+ * @param expected expected position
+ */
+function assertPosition(actual: number | null, expected: number): void {
+    assert.ok(actual !== null && Math.abs(actual - expected) <= 20, `expected ${expected}, got ${actual}`);
+}
+
+test("clock interpolates playing layers between Time packets", () => {
+    const { client, clock: layerClock } = clock();
+    assert.strictEqual(layerClock.positionAt(1), null);
+
+    client.client().emit("time", timePacket(1000, nw.TCNetLayerStatus.PLAYING));
+    const now = Date.now();
+    assertPosition(layerClock.positionAt(1, now + 500), 1500);
+    assertPosition(layerClock.positionAt(1, now + 100000), 60000);
+    assert.strictEqual(layerClock.positionAt(2, now + 500), 0);
+    assert.deepStrictEqual(
+        layerClock.positions(now).map((el) => [el.layer, el.playing]),
+        [1, 2, 3, 4, 5, 6, 7, 8].map((el) => [el, el === 1]),
+    );
+
+    client.client().emit("time", timePacket(2000, nw.TCNetLayerStatus.PAUSED));
+    assert.strictEqual(layerClock.positionAt(1, Date.now() + 500), 2000);
+    layerClock.stop();
+});
+
+test("clock follows the speed of the layer", () => {
+    const { client, clock: layerClock } = clock();
+    const metrics = new nw.TCNetDataPacketMetrics();
+    Object.assign(metrics, {
+        layer: 1,
+        trackID: 1,
+        state: nw.TCNetLayerStatus.PLAYING,
+        currentPosition: 0,
+        trackLength: 60000,
+        beatMarker: 0,
+        beatNumber: 0,
+        bpm: 12000,
+        speed: 5000,
+        pitchBend: 5000,
+        syncMaster: 0,
+    });
+    client.state().updateMetrics(metrics);
+
+    client.client().emit("time", timePacket(1000, nw.TCNetLayerStatus.PLAYING));
+    assertPosition(layerClock.positionAt(1, Date.now() + 1000), 1500);
+    layerClock.stop();
+});
+
+test("clock emits jump when the received position differs", () => {
+    const { client, clock: layerClock } = clock();
+    const jumps: number[][] = [];
+    layerClock.on("jump", (layer: number, previous: number, position: number) => {
+        jumps.push([layer, previous, position]);
+    });
+
+    client.client().emit("time", timePacket(1000, nw.TCNetLayerStatus.PLAYING));
+    client.client().emit("time", timePacket(1010, nw.TCNetLayerStatus.PLAYING));
+    assert.strictEqual(jumps.length, 0);
+
+    client.client().emit("time", timePacket(30000, nw.TCNetLayerStatus.PLAYING));
+    assert.strictEqual(jumps.length, 1);
+    assert.strictEqual(jumps[0][0], 1);
+    assert.strictEqual(jumps[0][2], 30000);
+
+    layerClock.stop();
+    client.client().emit("time", timePacket(1000, nw.TCNetLayerStatus.PLAYING));
+    assert.strictEqual(jumps.length, 1);
+});
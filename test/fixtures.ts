@@ -0,0 +1,92 @@
+import * as nw from "../src/network";
+import { TCNetConfiguration } from "../src/tcnet";
+import { TCNetSimulator, TCNetSimulatorConfiguration } from "../src/simulator";
+import { TCNetLoopbackNetwork, TCNetLoopbackTransport } from "../src/transport";
+
+/**
+ * Encodes a packet including the management header
+ * @param packet packet with all fields set
+ * @param nodeType type of the sending node
+ * @returns datagram
+ */
+export function encodePacket(packet: nw.TCNetPacket, nodeType = nw.NodeType.Slave): Buffer {
+    packet.buffer = Buffer.alloc(packet.length());
+    packet.header = new nw.TCNetManagementHeader(packet.buffer);
+    packet.header.nodeId = 1;
+    packet.header.minorVersion = 5;
+    packet.header.messageType = packet.type();
+    packet.header.nodeName = "FIXTURE";
+    packet.header.seq = 0;
+    packet.header.nodeType = nodeType;
+    packet.header.nodeOptions = 0;
+    packet.header.timestamp = 0;
+    packet.header.write();
+    packet.write();
+    return packet.buffer;
+}
+
+/**
+ * Creates an OptIn packet of a node
+ * @param listenerPort unicast port of the node
+ * @returns OptIn packet
+ */
+export function optInPacket(listenerPort: number): nw.TCNetOptInPacket {
+    const packet = new nw.TCNetOptInPacket();
+    packet.nodeCount = 1;
+    packet.nodeListenerPort = listenerPort;
+    packet.uptime = 0;
+    packet.vendorName = "VENDOR";
+    packet.appName = "FIXTURE";
+    packet.majorVersion = 1;
+    packet.minorVersion = 0;
+    packet.bugVersion = 0;
+    return packet;
+}
+
+/**
+ * Encodes an Error packet of a master, answering a request or control command
+ * @param messageType type of the answered message
+ * @param code result
+ * @param dataType requested data type
+ * @param layer requested layer
+ * @returns datagram
+ */
+export function errorDatagram(
+    messageType: nw.TCNetMessageType,
+    code: nw.TCNetErrorCode,
+    dataType = 0,
+    layer = 0,
+): Buffer {
+    const packet = new nw.TCNetErrorPacket();
+    packet.messageType = messageType;
+    packet.code = code;
+    packet.dataType = dataType;
+    packet.layer = layer;
+    return encodePacket(packet, nw.NodeType.Master);
+}
+
+/**
+ * Starts a simulator on a loopback network
+ * @param network network to attach to
+ * @param address address of the simulator
+ * @returns started simulator
+ */
+export async function startSimulator(network: TCNetLoopbackNetwork, address = "10.0.0.1"): Promise<TCNetSimulator> {
+    const config = new TCNetSimulatorConfiguration();
+    config.transport = new TCNetLoopbackTransport(network, address);
+    const simulator = new TCNetSimulator(config);
+    await simulator.start();
+    return simulator;
+}
+
+/**
+ * Creates the configuration of a client on a loopback network
+ * @param network network to attach to
+ * @param address address of the client
+ * @returns configuration
+ */
+export function loopbackConfig(network: TCNetLoopbackNetwork, address = "10.0.0.2"): TCNetConfiguration {
+    const config = new TCNetConfiguration();
+    config.transport = new TCNetLoopbackTransport(network, address);
+    return config;
+}
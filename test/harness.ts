@@ -0,0 +1,45 @@
+/* eslint-disable no-console */
+
+type TestCase = {
+    name: string;
+    fn: () => void | Promise<void>;
+};
+
+const cases: TestCase[] = [];
+
+/**
+ * Registers a test case
+ * @param name name printed in the report
+ * @param fn test body, failing by throwing (e.g. from assert)
+ */
+export function test(name: string, fn: () => void | Promise<void>): void {
+    cases.push({ name, fn });
+}
+
+/**
+ * Runs all registered test cases one after another
+ * @returns number of failed test cases
+ */
+export async function run(): Promise<number> {
+    let failed = 0;
+    for (const testCase of cases) {
+        try {
+            await testCase.fn();
+            console.log(`ok - ${testCase.name}`);
+        } catch (err) {
+            failed++;
+            console.log(`not ok - ${testCase.name}`);
+            console.log(err);
+        }
+    }
+    console.log(`\n${cases.length - failed} passed, ${failed} failed`);
+    return failed;
+}
+
+/**
+ * Resolves after a delay
+ * @param ms delay in milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
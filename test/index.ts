@@ -0,0 +1,18 @@
+import { run } from "./harness";
+import "./network.test";
+import "./capture.test";
+import "./pcap.test";
+import "./tcnet.test";
+import "./pioneer.test";
+import "./requests.test";
+import "./clock.test";
+import "./timecode.test";
+import "./transport.test";
+import "./registry.test";
+import "./server.test";
+import "./utils.test";
+import "./cli.test";
+
+run().then((failed) => {
+    process.exitCode = failed > 0 ? 1 : 0;
+});
@@ -0,0 +1,425 @@
+import * as assert from "assert";
+import * as nw from "../src/network";
+import { test } from "./harness";
+import { encodePacket } from "./fixtures";
+
+/**
+ * Writes a packet into a buffer of its length and reads it back with a fresh instance
+ * @param packet packet with all fields set
+ * @returns the decoded packet
+ */
+function roundTrip<T extends nw.TCNetPacket>(packet: T): T {
+    packet.buffer = Buffer.alloc(packet.length());
+    packet.write();
+
+    const decoded: T = new (<new () => T>packet.constructor)();
+    decoded.buffer = packet.buffer;
+    decoded.read();
+    return decoded;
+}
+
+/**
+ * Fields of a packet without buffer and header
+ * @param packet packet
+ * @returns fields by name
+ */
+function fields(packet: nw.TCNetPacket): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(packet)) {
+        if (key !== "buffer" && key !== "header") {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Asserts that read(write(packet)) equals packet
+ * @param packet packet with all fields set
+ */
+function assertRoundTrip(packet: nw.TCNetPacket): void {
+    const decoded = roundTrip(packet);
+    assert.deepStrictEqual(fields(decoded), fields(packet));
+    assert.strictEqual(decoded.type(), packet.type());
+}
+
+/**
+ * Creates a running timecode
+ * @returns timecode
+ */
+function timecode(mode: number, hours: number, minutes: number, seconds: number, frames: number): nw.TCNetTimecode {
+    const tc = new nw.TCNetTimecode();
+    tc.mode = mode;
+    tc.state = nw.TCNetTimecodeState.Running;
+    tc.hours = hours;
+    tc.minutes = minutes;
+    tc.seconds = seconds;
+    tc.frames = frames;
+    return tc;
+}
+
+test("ManagementHeader round trip", () => {
+    const header = new nw.TCNetManagementHeader(Buffer.alloc(24));
+    header.nodeId = 0x1234;
+    header.minorVersion = 5;
+    header.messageType = nw.TCNetMessageType.Status;
+    header.nodeName = "TESTNODE";
+    header.seq = 42;
+    header.nodeType = nw.NodeType.Master;
+    header.nodeOptions = 7;
+    header.timestamp = 123456789;
+    header.write();
+
+    const decoded = new nw.TCNetManagementHeader(header.buffer);
+    decoded.read();
+    assert.deepStrictEqual(decoded, header);
+});
+
+test("OptIn round trip", () => {
+    const packet = new nw.TCNetOptInPacket();
+    packet.nodeCount = 3;
+    packet.nodeListenerPort = 65023;
+    packet.uptime = 3600;
+    packet.vendorName = "VENDOR";
+    packet.appName = "APP";
+    packet.majorVersion = 1;
+    packet.minorVersion = 2;
+    packet.bugVersion = 3;
+    assertRoundTrip(packet);
+});
+
+test("OptOut round trip", () => {
+    const packet = new nw.TCNetOptOutPacket();
+    packet.nodeCount = 2;
+    packet.nodeListenerPort = 65032;
+    assertRoundTrip(packet);
+});
+
+test("TimeSync round trip", () => {
+    const packet = new nw.TCNetTimeSyncPacket();
+    packet.step = nw.TCNetTimeSyncStep.Response;
+    packet.nodeListenerPort = 65032;
+    packet.remoteTimestamp = 987654321;
+    assertRoundTrip(packet);
+});
+
+test("Status round trip", () => {
+    const packet = new nw.TCNetStatusPacket();
+    packet.nodeCount = 4;
+    packet.nodeListenerPort = 65023;
+    for (let n = 0; n < 8; n++) {
+        packet.layerSource[n] = n + 1;
+        packet.layerStatus[n] = nw.TCNetLayerStatus.PLAYING;
+        packet.trackID[n] = 1000 + n;
+        packet.layerName[n] = `LAYER${n + 1}`;
+    }
+    packet.smpteMode = 25;
+    packet.autoMasterMode = 1;
+    assertRoundTrip(packet);
+});
+
+test("Request round trip", () => {
+    const packet = new nw.TCNetRequestPacket();
+    packet.dataType = nw.TCNetDataPacketType.MetaData;
+    packet.layer = 2;
+    assertRoundTrip(packet);
+});
+
+test("Error round trip", () => {
+    const packet = new nw.TCNetErrorPacket();
+    packet.dataType = nw.TCNetDataPacketType.CUEData;
+    packet.layer = 3;
+    packet.code = nw.TCNetErrorCode.EmptyData;
+    packet.messageType = nw.TCNetMessageType.Request;
+    assertRoundTrip(packet);
+});
+
+test("Control round trip", () => {
+    const packet = new nw.TCNetControlPacket();
+    packet.step = 0;
+    packet.controlPath = "layer/1/stop";
+    assertRoundTrip(packet);
+});
+
+test("ApplicationData round trip", () => {
+    const packet = new nw.TCNetApplicationDataPacket();
+    packet.dataIdentifier1 = 1;
+    packet.dataIdentifier2 = 2;
+    packet.totalPackets = 1;
+    packet.packetNo = 1;
+    packet.packetSignature = 0xdeadbeef;
+    packet.data = Buffer.from([1, 2, 3, 4, 5]);
+    assertRoundTrip(packet);
+});
+
+test("Text round trip", () => {
+    const packet = new nw.TCNetTextPacket();
+    packet.step = 0;
+    packet.text = "Grüße";
+    assertRoundTrip(packet);
+});
+
+test("Keyboard round trip", () => {
+    const packet = new nw.TCNetKeyboardPacket();
+    packet.keyCode = 65;
+    packet.modifiers = nw.TCNetKeyModifier.Shift | nw.TCNetKeyModifier.Control;
+    assertRoundTrip(packet);
+});
+
+test("Time round trip", () => {
+    const packet = new nw.TCNetTimePacket();
+    for (let n = 0; n < 8; n++) {
+        packet.layerCurrentTime[n] = 1000 * n;
+        packet.layerTotalTime[n] = 300000;
+        packet.layerBeatmarker[n] = n % 4;
+        packet.layerState[n] = nw.TCNetLayerStatus.PAUSED;
+        packet.layerTimecode[n] = timecode(25, 1, 2, 3, n);
+    }
+    packet.generalSMPTEMode = 25;
+    assertRoundTrip(packet);
+});
+
+test("Data round trip", () => {
+    const packet = new nw.TCNetDataPacket();
+    packet.dataType = nw.TCNetDataPacketType.MetricsData;
+    packet.layer = 1;
+    packet.buffer = Buffer.alloc(26);
+    packet.write();
+
+    const decoded = new nw.TCNetDataPacket();
+    decoded.buffer = packet.buffer;
+    decoded.read();
+    assert.deepStrictEqual(fields(decoded), fields(packet));
+});
+
+test("Metrics round trip", () => {
+    const packet = new nw.TCNetDataPacketMetrics();
+    packet.dataType = nw.TCNetDataPacketType.MetricsData;
+    packet.layer = 1;
+    packet.state = nw.TCNetLayerStatus.PLAYING;
+    packet.syncMaster = nw.TCNetLayerSyncMaster.Master;
+    packet.beatMarker = 2;
+    packet.trackLength = 240000;
+    packet.currentPosition = 12345;
+    packet.speed = 10000;
+    packet.beatNumber = 64;
+    packet.bpm = 12800;
+    packet.pitchBend = 10000;
+    packet.trackID = 42;
+    assertRoundTrip(packet);
+});
+
+test("Metadata round trip", () => {
+    const packet = new nw.TCNetDataPacketMetadata();
+    packet.dataType = nw.TCNetDataPacketType.MetaData;
+    packet.layer = 2;
+    packet.trackArtist = "Artist";
+    packet.trackTitle = "Title";
+    packet.trackKey = 5;
+    packet.trackID = 42;
+    assertRoundTrip(packet);
+});
+
+test("BeatGrid round trip", () => {
+    const packet = new nw.TCNetDataPacketBeatGrid();
+    packet.dataType = nw.TCNetDataPacketType.BeatGridData;
+    packet.layer = 1;
+    packet.dataSize = 4 * nw.TCNetBeatGridEntry.SIZE;
+    packet.totalPackets = 1;
+    packet.packetNo = 1;
+    packet.dataClusterSize = 2400;
+    for (let n = 0; n < 4; n++) {
+        const beat = new nw.TCNetBeatGridEntry();
+        beat.beatNumber = n + 1;
+        beat.beatType = n == 0 ? nw.TCNetBeatType.Downbeat : nw.TCNetBeatType.Upbeat;
+        beat.timestamp = n * 500;
+        packet.beats.push(beat);
+    }
+    assertRoundTrip(packet);
+});
+
+test("CUE round trip", () => {
+    const packet = new nw.TCNetDataPacketCUE();
+    packet.dataType = nw.TCNetDataPacketType.CUEData;
+    packet.layer = 1;
+    packet.loopInTime = 1000;
+    packet.loopOutTime = 5000;
+    for (let n = 0; n < nw.TCNetDataPacketCUE.CUE_COUNT; n++) {
+        const cue = new nw.TCNetCue();
+        cue.type = n % 3;
+        cue.inTime = n * 1000;
+        cue.outTime = n * 1000 + 500;
+        cue.colorRed = n;
+        cue.colorGreen = 2 * n;
+        cue.colorBlue = 3 * n;
+        packet.cues[n] = cue;
+    }
+    assertRoundTrip(packet);
+});
+
+test("SmallWaveForm round trip", () => {
+    const packet = new nw.TCNetDataPacketSmallWaveForm();
+    packet.dataType = nw.TCNetDataPacketType.SmallWaveFormData;
+    packet.layer = 1;
+    packet.dataSize = 2400;
+    packet.totalPackets = 1;
+    packet.packetNo = 1;
+    packet.dataClusterSize = 2400;
+    for (let n = 0; n < 1200; n++) {
+        packet.colors.push(n % 256);
+        packet.heights.push((n * 7) % 256);
+    }
+    assertRoundTrip(packet);
+});
+
+test("BigWaveForm round trip", () => {
+    const packet = new nw.TCNetDataPacketBigWaveForm();
+    packet.dataType = nw.TCNetDataPacketType.BigWaveFormData;
+    packet.layer = 1;
+    packet.dataSize = 20;
+    packet.totalPackets = 3;
+    packet.packetNo = 2;
+    packet.dataClusterSize = 20;
+    for (let n = 0; n < 10; n++) {
+        packet.colors.push(n);
+        packet.heights.push(255 - n);
+    }
+    assertRoundTrip(packet);
+});
+
+test("Mixer round trip", () => {
+    const packet = new nw.TCNetDataPacketMixer();
+    packet.dataType = nw.TCNetDataPacketType.MixerData;
+    packet.layer = 1;
+    packet.mixerName = "DJM-900NXS2";
+
+    packet.mixerId = 1;
+    packet.mixerType = 2;
+
+    // Give every level and effect setting a distinct value
+    let value = 3;
+    const settings: (keyof nw.TCNetDataPacketMixer)[] = [
+        "micEqHi",
+        "micEqLow",
+        "masterAudioLevel",
+        "masterFaderLevel",
+        "linkCueA",
+        "linkCueB",
+        "masterFilter",
+        "masterCueA",
+        "masterCueB",
+        "masterIsolatorOn",
+        "masterIsolatorHi",
+        "masterIsolatorMid",
+        "masterIsolatorLow",
+        "filterHpf",
+        "filterLpf",
+        "filterResonance",
+        "sendFxEffect",
+        "sendFxExt1",
+        "sendFxExt2",
+        "sendFxMasterMix",
+        "sendFxSizeFeedback",
+        "sendFxTime",
+        "sendFxHpf",
+        "sendFxLevel",
+        "channelFaderCurve",
+        "crossfaderCurve",
+        "crossfader",
+        "beatFxOn",
+        "beatFxLevelDepth",
+        "beatFxChannelSelect",
+        "beatFxSelect",
+        "beatFxFreqHi",
+        "beatFxFreqMid",
+        "beatFxFreqLow",
+    ];
+    for (const key of settings) {
+        (<Record<string, unknown>>(<unknown>packet))[key] = value++;
+    }
+    for (let n = 0; n < nw.TCNetDataPacketMixer.CHANNEL_COUNT; n++) {
+        const channel = new nw.TCNetMixerChannel();
+        channel.sourceSelect = n;
+        channel.audioLevel = value++;
+        channel.faderLevel = value++;
+        channel.trimLevel = value++;
+        channel.compLevel = value++;
+        channel.eqHi = value++;
+        channel.eqHiMid = value++;
+        channel.eqLowMid = value++;
+        channel.eqLow = value++;
+        channel.filterColor = value++;
+        channel.send = value++;
+        channel.cueA = n % 2;
+        channel.cueB = (n + 1) % 2;
+        channel.crossfaderAssign = n % 3;
+        packet.channels[n] = channel;
+    }
+    assertRoundTrip(packet);
+});
+
+test("File round trip", () => {
+    const packet = new nw.TCNetFilePacket();
+    packet.dataType = nw.TCNetDataPacketType.LowResArtworkFile;
+    packet.layer = 1;
+    packet.content = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 1, 2, 3]);
+    packet.dataSize = packet.content.length;
+    packet.totalPackets = 1;
+    packet.packetNo = 1;
+    packet.dataClusterSize = 1400;
+    assertRoundTrip(packet);
+});
+
+test("every packet class is covered by the lookup tables", () => {
+    for (const type of Object.values(nw.TCNetMessageType)) {
+        if (typeof type === "number") {
+            assert.notStrictEqual(nw.TCNetPackets[type], null, `message type ${type}`);
+        }
+    }
+    for (const type of Object.values(nw.TCNetDataPacketType)) {
+        if (typeof type === "number") {
+            assert.notStrictEqual(nw.TCNetDataPackets[type], null, `data type ${type}`);
+        }
+    }
+});
+
+test("fitsPacket rejects truncated datagrams", () => {
+    assert.ok(nw.fitsPacket(new nw.TCNetOptInPacket(), 68));
+    assert.ok(!nw.fitsPacket(new nw.TCNetOptInPacket(), 30));
+    assert.ok(nw.fitsPacket(new nw.TCNetDataPacket(), 26));
+    assert.ok(!nw.fitsPacket(new nw.TCNetDataPacket(), 25));
+    assert.ok(nw.fitsPacket(new nw.TCNetDataPacketBigWaveForm(), 1042));
+    assert.ok(!nw.fitsPacket(new nw.TCNetDataPacketBigWaveForm(), 40));
+    assert.ok(!nw.fitsPacket(new nw.TCNetApplicationDataPacket(), 30));
+});
+
+test("decodePacket decodes datagrams with the packet classes", () => {
+    const metadata = new nw.TCNetDataPacketMetadata();
+    metadata.dataType = nw.TCNetDataPacketType.MetaData;
+    metadata.layer = 2;
+    metadata.trackArtist = "Artist";
+    metadata.trackTitle = "Title";
+    metadata.trackKey = 5;
+    metadata.trackID = 42;
+    const msg = encodePacket(metadata, nw.NodeType.Master);
+
+    const packet = <nw.TCNetDataPacket>nw.decodePacket(msg);
+    assert.strictEqual(packet.constructor, nw.TCNetDataPacket);
+    assert.strictEqual(packet.header.nodeType, nw.NodeType.Master);
+    assert.strictEqual(packet.layer, 2);
+
+    const data = <nw.TCNetDataPacketMetadata>nw.decodeDataPacket(packet);
+    assert.ok(data instanceof nw.TCNetDataPacketMetadata);
+    assert.strictEqual(data.trackID, 42);
+    assert.strictEqual(data.header, packet.header);
+
+    const unknown = Buffer.from(msg);
+    unknown.writeUInt8(0, 24);
+    assert.strictEqual(nw.decodeDataPacket(<nw.TCNetDataPacket>nw.decodePacket(unknown)), null);
+    assert.strictEqual(nw.decodeDataPacket(<nw.TCNetDataPacket>nw.decodePacket(msg.slice(0, 100))), null);
+
+    assert.strictEqual(nw.decodePacket(msg.slice(0, 20)), null);
+    const unknownType = Buffer.from(msg);
+    unknownType.writeUInt8(99, 7);
+    assert.strictEqual(nw.decodePacket(unknownType), null);
+});
@@ -0,0 +1,157 @@
+import * as assert from "assert";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promises } from "fs";
+import * as nw from "../src/network";
+import { readPcap } from "../src/pcap";
+import { TCNetCaptureFrame } from "../src/capture";
+import { test } from "./harness";
+import { encodePacket, optInPacket } from "./fixtures";
+
+/**
+ * Builds an IPv4 packet carrying an UDP datagram
+ * @param payload UDP payload
+ * @param destinationPort UDP destination port
+ * @returns IPv4 packet
+ */
+function ipv4(payload: Buffer, destinationPort: number): Buffer {
+    const udp = Buffer.alloc(8);
+    udp.writeUInt16BE(65023, 0);
+    udp.writeUInt16BE(destinationPort, 2);
+    udp.writeUInt16BE(8 + payload.length, 4);
+
+    const ip = Buffer.alloc(20);
+    ip.writeUInt8(0x45, 0);
+    ip.writeUInt16BE(20 + 8 + payload.length, 2);
+    ip.writeUInt8(17, 9);
+    Buffer.from([10, 0, 0, 1]).copy(ip, 12);
+    Buffer.from([10, 0, 0, 255]).copy(ip, 16);
+    return Buffer.concat([ip, udp, payload]);
+}
+
+/**
+ * Builds an Ethernet frame carrying an IPv4 packet
+ * @param packet IPv4 packet
+ * @returns frame
+ */
+function ethernet(packet: Buffer): Buffer {
+    const header = Buffer.alloc(14);
+    header.writeUInt16BE(0x0800, 12);
+    return Buffer.concat([header, packet]);
+}
+
+/**
+ * Builds a Linux cooked capture (SLL) frame carrying an IPv4 packet
+ * @param packet IPv4 packet
+ * @returns frame
+ */
+function linuxSLL(packet: Buffer): Buffer {
+    const header = Buffer.alloc(16);
+    header.writeUInt16BE(0x0800, 14);
+    return Buffer.concat([header, packet]);
+}
+
+/**
+ * Builds a classic little endian pcap file
+ * @param linkType link layer type of all frames
+ * @param frames captured frames
+ * @returns file content
+ */
+function pcap(linkType: number, frames: Buffer[]): Buffer {
+    const header = Buffer.alloc(24);
+    header.writeUInt32LE(0xa1b2c3d4, 0);
+    header.writeUInt16LE(2, 4);
+    header.writeUInt16LE(4, 6);
+    header.writeUInt32LE(65535, 16);
+    header.writeUInt32LE(linkType, 20);
+
+    const records = frames.map((frame, n) => {
+        const record = Buffer.alloc(16);
+        record.writeUInt32LE(1000 + n, 0);
+        record.writeUInt32LE(0, 4);
+        record.writeUInt32LE(frame.length, 8);
+        record.writeUInt32LE(frame.length, 12);
+        return Buffer.concat([record, frame]);
+    });
+    return Buffer.concat([header, ...records]);
+}
+
+/**
+ * Writes a capture to a temporary file and reads it
+ * @param content file content
+ * @returns TCNet frames of the capture
+ */
+async function readTemporaryPcap(content: Buffer): Promise<TCNetCaptureFrame[]> {
+    const path = join(tmpdir(), `tcnet-${process.pid}.pcap`);
+    await promises.writeFile(path, content);
+    try {
+        return await readPcap(path);
+    } finally {
+        await promises.unlink(path);
+    }
+}
+
+test("pcap with Ethernet frames is decoded", async () => {
+    const optIn = encodePacket(optInPacket(65023));
+    const frames = await readTemporaryPcap(pcap(1, [ethernet(ipv4(optIn, 60000))]));
+
+    assert.strictEqual(frames.length, 1);
+    assert.strictEqual(frames[0].socket, "broadcast");
+    assert.strictEqual(frames[0].address, "10.0.0.1");
+    assert.strictEqual(frames[0].port, 65023);
+    assert.strictEqual(frames[0].time, 1000000);
+    assert.strictEqual(frames[0].messageType, nw.TCNetMessageType.OptIn);
+    assert.deepStrictEqual(frames[0].data, optIn);
+});
+
+test("truncated Ethernet frames are skipped", async () => {
+    const frame = ethernet(ipv4(encodePacket(optInPacket(65023)), 60000));
+    const frames = await readTemporaryPcap(pcap(1, [frame.slice(0, 10), frame.slice(0, 20), frame]));
+
+    assert.strictEqual(frames.length, 1);
+});
+
+test("truncated OptIn packets do not break learning unicast ports", async () => {
+    const request = new nw.TCNetRequestPacket();
+    request.dataType = nw.TCNetDataPacketType.MetaData;
+    request.layer = 1;
+    const frames = await readTemporaryPcap(
+        pcap(1, [
+            ethernet(ipv4(encodePacket(optInPacket(65024)).slice(0, 40), 60000)),
+            ethernet(ipv4(encodePacket(optInPacket(65023)), 60000)),
+            ethernet(ipv4(encodePacket(request), 65023)),
+            ethernet(ipv4(encodePacket(request), 65024)),
+        ]),
+    );
+
+    assert.deepStrictEqual(
+        frames.map((el) => el.socket),
+        ["broadcast", "broadcast", "unicast"],
+    );
+});
+
+test("truncated Linux cooked capture frames are skipped", async () => {
+    const frame = linuxSLL(ipv4(encodePacket(optInPacket(65023)), 60000));
+    const frames = await readTemporaryPcap(pcap(113, [frame.slice(0, 15), frame.slice(0, 30), frame]));
+
+    assert.strictEqual(frames.length, 1);
+    assert.strictEqual(frames[0].messageType, nw.TCNetMessageType.OptIn);
+});
+
+test("unicast ports are learned from OptIn packets", async () => {
+    const request = new nw.TCNetRequestPacket();
+    request.dataType = nw.TCNetDataPacketType.MetaData;
+    request.layer = 1;
+    const frames = await readTemporaryPcap(
+        pcap(1, [
+            ethernet(ipv4(encodePacket(optInPacket(65023)), 60000)),
+            ethernet(ipv4(encodePacket(request), 65023)),
+            ethernet(ipv4(encodePacket(request), 12345)),
+        ]),
+    );
+
+    assert.deepStrictEqual(
+        frames.map((el) => el.socket),
+        ["broadcast", "unicast"],
+    );
+});
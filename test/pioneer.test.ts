@@ -0,0 +1,95 @@
+import * as assert from "assert";
+import { RemoteInfo } from "dgram";
+import * as nw from "../src/network";
+import { PioneerDJTCClient } from "../src/pioneer";
+import { TCNetLoopbackNetwork } from "../src/transport";
+import { sleep, test } from "./harness";
+import { errorDatagram, loopbackConfig, startSimulator } from "./fixtures";
+
+/**
+ * Creates a client whose layer 1 has a track loaded and which answers data requests with metadata of another track
+ * @param loadedTrackID track ID in the layer state
+ * @param responseTrackID track ID in the metadata response
+ * @returns client and the data types it requested
+ */
+function trackClient(
+    loadedTrackID: number,
+    responseTrackID: number,
+): { client: PioneerDJTCClient; requests: nw.TCNetDataPacketType[] } {
+    const client = new PioneerDJTCClient();
+    client.connectOffline();
+
+    const status = new nw.TCNetStatusPacket();
+    for (let n = 0; n < 8; n++) {
+        status.layerName[n] = "";
+        status.layerStatus[n] = nw.TCNetLayerStatus.PAUSED;
+        status.trackID[n] = 0;
+    }
+    status.trackID[0] = loadedTrackID;
+    client.state().updateStatus(status);
+
+    const requests: nw.TCNetDataPacketType[] = [];
+    client.client().requestData = async (dataType: number, layer: number) => {
+        requests.push(dataType);
+        const metadata = new nw.TCNetDataPacketMetadata();
+        metadata.dataType = dataType;
+        metadata.layer = layer;
+        metadata.trackArtist = "Artist";
+        metadata.trackTitle = "Title";
+        metadata.trackKey = 0;
+        metadata.trackID = responseTrackID;
+        return metadata;
+    };
+    return { client, requests };
+}
+
+test("track cache only requests track-static data", async () => {
+    const { client, requests } = trackClient(5, 5);
+
+    const track = await client.track(1);
+    assert.deepStrictEqual(requests, [nw.TCNetDataPacketType.MetaData]);
+    assert.strictEqual(track.trackID, 5);
+    assert.strictEqual(client.cachedTrack(5), track);
+    assert.ok(!("metrics" in track));
+
+    assert.strictEqual(await client.track(1), track);
+    assert.strictEqual(requests.length, 1);
+});
+
+test("track cache keys tracks by the track ID of the response", async () => {
+    // Track on the layer changes while the metadata is requested
+    const { client } = trackClient(5, 6);
+
+    const track = await client.track(1);
+    assert.strictEqual(track.trackID, 6);
+    assert.strictEqual(client.cachedTrack(6), track);
+    assert.strictEqual(client.cachedTrack(5), null);
+});
+
+test("stopping all layers stops every layer and reports failures together", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network);
+    const config = loopbackConfig(network);
+    config.timeSyncInterval = 0;
+    const client = new PioneerDJTCClient(config);
+    const rinfo: RemoteInfo = { address: "10.0.0.1", port: 65033, family: "IPv4", size: 0 };
+    try {
+        await client.connect();
+        const stopped = client.stopAll();
+        await sleep(10);
+
+        // The simulator does not answer control commands, replies are injected in the order of the layers
+        for (let n = 1; n <= 8; n++) {
+            const code = n === 3 || n === 6 ? nw.TCNetErrorCode.EmptyData : nw.TCNetErrorCode.OK;
+            client.client().receive("unicast", errorDatagram(nw.TCNetMessageType.Control, code), rinfo);
+        }
+        await assert.rejects(stopped, (err: Error) => {
+            assert.ok(err.message.includes("2 of 8"), err.message);
+            assert.ok(err.message.includes("layer 3") && err.message.includes("layer 6"), err.message);
+            return true;
+        });
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import { RemoteInfo } from "dgram";
+import * as nw from "../src/network";
+import { TCNetNode, TCNetNodeRegistry } from "../src/registry";
+import { TCNetClient } from "../src/tcnet";
+import { TCNetLoopbackNetwork } from "../src/transport";
+import { sleep, test } from "./harness";
+import { encodePacket, loopbackConfig, optInPacket, startSimulator } from "./fixtures";
+
+const rinfo: RemoteInfo = { address: "10.0.0.5", port: 60000, family: "IPv4", size: 0 };
+
+/**
+ * Records the events of a registry
+ * @param registry registry to observe
+ * @returns list of event names and node names
+ */
+function recordEvents(registry: TCNetNodeRegistry): string[] {
+    const events: string[] = [];
+    for (const event of ["nodeadded", "nodeupdated", "noderemoved"]) {
+        registry.on(event, (node: TCNetNode) => events.push(`${event} ${node.nodeName}`));
+    }
+    return events;
+}
+
+test("registry adds, updates and removes nodes", () => {
+    const registry = new TCNetNodeRegistry(5000);
+    const events = recordEvents(registry);
+
+    const optIn = optInPacket(65023);
+    encodePacket(optIn);
+    registry.update(optIn, rinfo, "eth0");
+    registry.update(optIn, rinfo, "eth0");
+    assert.deepStrictEqual(events, ["nodeadded FIXTURE"]);
+
+    const node = <TCNetNode>registry.node(rinfo.address, 1);
+    assert.strictEqual(node.listenerPort, 65023);
+    assert.strictEqual(node.appName, "FIXTURE");
+    assert.strictEqual(node.version, "1.0.0");
+    assert.strictEqual(node.interface, "eth0");
+    assert.strictEqual(node.nodeType, nw.NodeType.Slave);
+
+    // Same node ID on another address is another node
+    registry.update(optIn, { ...rinfo, address: "10.0.0.6" });
+    assert.strictEqual(registry.nodes().length, 2);
+
+    const changed = optInPacket(65024);
+    encodePacket(changed);
+    registry.update(changed, rinfo);
+    assert.deepStrictEqual(events.slice(2), ["nodeupdated FIXTURE"]);
+    assert.strictEqual((<TCNetNode>registry.node(rinfo.address, 1)).listenerPort, 65024);
+    assert.strictEqual((<TCNetNode>registry.node(rinfo.address, 1)).interface, "eth0");
+
+    const optOut = new nw.TCNetOptOutPacket();
+    optOut.nodeCount = 0;
+    optOut.nodeListenerPort = 65024;
+    encodePacket(optOut);
+    registry.update(optOut, rinfo);
+    assert.deepStrictEqual(events.slice(3), ["noderemoved FIXTURE"]);
+    assert.strictEqual(registry.node(rinfo.address, 1), undefined);
+
+    registry.clear();
+    assert.deepStrictEqual(events.slice(4), ["noderemoved FIXTURE"]);
+    assert.strictEqual(registry.nodes().length, 0);
+});
+
+test("registry expires silent nodes", async () => {
+    const registry = new TCNetNodeRegistry(50);
+    const events = recordEvents(registry);
+
+    const optIn = optInPacket(65023);
+    encodePacket(optIn);
+    registry.update(optIn, rinfo);
+    registry.expire();
+    assert.strictEqual(registry.nodes().length, 1);
+
+    await sleep(100);
+    registry.expire();
+    assert.deepStrictEqual(events, ["nodeadded FIXTURE", "noderemoved FIXTURE"]);
+    assert.strictEqual(registry.nodes().length, 0);
+});
+
+test("client registers other nodes but not itself", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network);
+    const client = new TCNetClient(loopbackConfig(network));
+    try {
+        const added: TCNetNode[] = [];
+        client.nodes().on("nodeadded", (node: TCNetNode) => added.push(node));
+        await client.listen();
+        await sleep(50);
+
+        // The own OptIn is looped back by the network
+        assert.deepStrictEqual(
+            added.map((el) => [el.nodeName, el.address, el.nodeType]),
+            [["TCNETSIM", "10.0.0.1", nw.NodeType.Master]],
+        );
+        assert.strictEqual(added[0].appName, "SIMULATOR");
+
+        // The simulator registered the client
+        const nodes = simulator.server().nodes().nodes();
+        assert.deepStrictEqual(
+            nodes.map((el) => [el.nodeName, el.address]),
+            [["TCNET.JS", "10.0.0.2"]],
+        );
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
@@ -0,0 +1,75 @@
+import * as assert from "assert";
+import * as nw from "../src/network";
+import { TCNetRequestManager } from "../src/requests";
+import { sleep, test } from "./harness";
+
+type Outcome = { state: "pending" | "resolved" | "rejected" };
+
+/**
+ * Tracks the outcome of a request
+ * @param promise request
+ * @returns outcome, updated once the request settles
+ */
+function track(promise: Promise<nw.TCNetDataPacket>): Outcome {
+    const outcome: Outcome = { state: "pending" };
+    promise.then(
+        () => (outcome.state = "resolved"),
+        () => (outcome.state = "rejected"),
+    );
+    return outcome;
+}
+
+/**
+ * Creates a request manager without rate limiting which counts sent requests
+ * @returns manager and list of sent requests
+ */
+function manager(): { requests: TCNetRequestManager; sent: string[] } {
+    const sent: string[] = [];
+    const requests = new TCNetRequestManager(async (dataType, layer) => {
+        sent.push(`${dataType}-${layer}`);
+    }, 0);
+    return { requests, sent };
+}
+
+test("shared requests honor the timeout of every caller", async () => {
+    const { requests, sent } = manager();
+    const short = track(requests.request(nw.TCNetDataPacketType.MetaData, 1, 50, 0));
+    const long = track(requests.request(nw.TCNetDataPacketType.MetaData, 1, 1000, 0));
+
+    await sleep(150);
+    assert.strictEqual(short.state, "rejected");
+    assert.strictEqual(long.state, "pending");
+    assert.strictEqual(sent.length, 1);
+
+    assert.ok(requests.resolve(`${nw.TCNetDataPacketType.MetaData}-1`, new nw.TCNetDataPacketMetadata()));
+    await sleep(0);
+    assert.strictEqual(long.state, "resolved");
+});
+
+test("late callers get their full timeout", async () => {
+    const { requests } = manager();
+    const first = track(requests.request(nw.TCNetDataPacketType.MetaData, 1, 100, 0));
+    await sleep(70);
+    const late = track(requests.request(nw.TCNetDataPacketType.MetaData, 1, 100, 0));
+
+    await sleep(60);
+    assert.strictEqual(first.state, "rejected");
+    assert.strictEqual(late.state, "pending");
+
+    await sleep(100);
+    assert.strictEqual(late.state, "rejected");
+});
+
+test("requests are repeated for callers with retries left", async () => {
+    const { requests, sent } = manager();
+    const once = track(requests.request(nw.TCNetDataPacketType.MetaData, 1, 50, 0));
+    const retrying = track(requests.request(nw.TCNetDataPacketType.MetaData, 1, 50, 2));
+
+    await sleep(90);
+    assert.strictEqual(once.state, "rejected");
+    assert.strictEqual(retrying.state, "pending");
+
+    await sleep(150);
+    assert.strictEqual(retrying.state, "rejected");
+    assert.strictEqual(sent.length, 3);
+});
@@ -0,0 +1,49 @@
+import * as assert from "assert";
+import * as nw from "../src/network";
+import { TCNetSimulator, TCNetSimulatorConfiguration } from "../src/simulator";
+import { TCNetClient } from "../src/tcnet";
+import { TCNetLoopbackNetwork, TCNetLoopbackTransport } from "../src/transport";
+import { sleep, test } from "./harness";
+import { loopbackConfig, startSimulator } from "./fixtures";
+
+test("stopping a server which was not started does nothing", async () => {
+    const simulator = new TCNetSimulator();
+    await simulator.stop();
+
+    const config = new TCNetSimulatorConfiguration();
+    config.transport = new TCNetLoopbackTransport(new TCNetLoopbackNetwork());
+    const started = new TCNetSimulator(config);
+    await started.start();
+    await started.stop();
+    await started.stop();
+});
+
+test("server and client announce themselves with their node type", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const packets: nw.TCNetPacket[] = [];
+    const monitor = new TCNetLoopbackTransport(network, "10.0.0.9");
+    await monitor.open({ broadcastAddresses: [], unicastPort: 65000, receiveTimestamp: false }, (_socket, msg) => {
+        const packet = nw.decodePacket(msg);
+        if (packet instanceof nw.TCNetOptInPacket) {
+            packets.push(packet);
+        }
+    });
+
+    const simulator = await startSimulator(network);
+    const client = new TCNetClient(loopbackConfig(network));
+    try {
+        await client.listen();
+        await sleep(10);
+
+        const server = packets.find((el) => el.header.nodeName === "TCNETSIM");
+        const node = packets.find((el) => el.header.nodeName === "TCNET.JS");
+        assert.strictEqual(server?.header.nodeType, nw.NodeType.Master);
+        assert.strictEqual(node?.header.nodeType, nw.NodeType.Slave);
+        assert.strictEqual((<nw.TCNetOptInPacket>server).appName, "SIMULATOR");
+        assert.strictEqual((<nw.TCNetOptInPacket>node).nodeListenerPort, 65032);
+    } finally {
+        client.disconnect();
+        monitor.close();
+        await simulator.stop();
+    }
+});
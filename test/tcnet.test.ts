@@ -0,0 +1,632 @@
+import * as assert from "assert";
+import { RemoteInfo } from "dgram";
+import * as nw from "../src/network";
+import { TCNetClient, TCNetConfiguration, TCNetConnectionState } from "../src/tcnet";
+import {
+    TCNetLoopbackNetwork,
+    TCNetLoopbackTransport,
+    TCNetReceiver,
+    TCNetSocketType,
+    TCNetTransport,
+    TCNetTransportOptions,
+} from "../src/transport";
+import { TCNetSimulator, TCNetSimulatorConfiguration } from "../src/simulator";
+import { interfaceBindAddress, listInterfaces, timestamp, wrapTimestamp } from "../src/utils";
+import { PioneerDJTCClient } from "../src/pioneer";
+import { sleep, test } from "./harness";
+import { encodePacket, errorDatagram, loopbackConfig, optInPacket, startSimulator } from "./fixtures";
+
+const rinfo: RemoteInfo = { address: "10.0.0.1", port: 60000, family: "IPv4", size: 0 };
+
+test("client ignores truncated and foreign datagrams", () => {
+    const client = new TCNetClient();
+    client.connectOffline();
+    const packets: nw.TCNetPacket[] = [];
+    client.on("broadcast", (packet: nw.TCNetPacket) => packets.push(packet));
+
+    const optIn = encodePacket(optInPacket(65023));
+    const data = Buffer.from(optIn.slice(0, 25));
+    data.writeUInt8(nw.TCNetMessageType.Data, 7);
+    const unknown = Buffer.from(optIn);
+    unknown.writeUInt8(99, 7);
+
+    client.receive("broadcast", Buffer.alloc(10), rinfo);
+    client.receive("broadcast", optIn.slice(0, 30), rinfo);
+    client.receive("broadcast", data, rinfo);
+    client.receive("broadcast", unknown, rinfo);
+    client.receive("unicast", data, rinfo);
+    client.receive("timestamp", Buffer.alloc(30), rinfo);
+    client.receive("broadcast", optIn, rinfo);
+
+    assert.strictEqual(packets.length, 1);
+    assert.ok(packets[0] instanceof nw.TCNetOptInPacket);
+});
+
+/**
+ * Encodes a Time packet with all layers playing
+ * @returns datagram
+ */
+function timeDatagram(): Buffer {
+    const time = new nw.TCNetTimePacket();
+    for (let n = 0; n < 8; n++) {
+        time.layerCurrentTime[n] = n * 1000;
+        time.layerTotalTime[n] = 60000;
+        time.layerBeatmarker[n] = 0;
+        time.layerState[n] = nw.TCNetLayerStatus.PLAYING;
+        time.layerTimecode[n] = new nw.TCNetTimecode();
+        time.layerTimecode[n].read(Buffer.alloc(6), 0);
+    }
+    time.generalSMPTEMode = 0;
+    return encodePacket(time, nw.NodeType.Master);
+}
+
+test("Time packets with the wrong length are not emitted", () => {
+    const client = new TCNetClient();
+    client.connectOffline();
+    const packets: nw.TCNetTimePacket[] = [];
+    client.on("time", (packet: nw.TCNetTimePacket) => packets.push(packet));
+
+    const msg = timeDatagram();
+    client.receive("timestamp", msg.slice(0, 100), rinfo);
+    client.receive("timestamp", msg, rinfo);
+
+    assert.strictEqual(packets.length, 1);
+    assert.strictEqual(packets[0].layerCurrentTime[1], 1000);
+});
+
+test("PioneerDJ layer state ignores Time packets with the wrong length", () => {
+    const client = new PioneerDJTCClient();
+    client.connectOffline();
+
+    const msg = timeDatagram();
+    client.client().receive("timestamp", msg.slice(0, 100), rinfo);
+    assert.strictEqual(client.state().layer(2).currentTime, -1);
+
+    client.client().receive("timestamp", msg, rinfo);
+    assert.strictEqual(client.state().layer(2).currentTime, 1000);
+});
+
+test("application data is sent as the first packet and rejected if too large", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const received: Buffer[] = [];
+    const monitor = new TCNetLoopbackTransport(network, "10.0.0.2");
+    await monitor.open({ broadcastAddresses: [], unicastPort: 65000, receiveTimestamp: false }, (_socket, msg) => {
+        if (msg.length >= 24 && msg.readUInt8(7) === nw.TCNetMessageType.ApplicationData) {
+            received.push(msg);
+        }
+    });
+
+    const config = new TCNetConfiguration();
+    config.transport = new TCNetLoopbackTransport(network, "10.0.0.1");
+    const client = new TCNetClient(config);
+    try {
+        await client.listen();
+        await client.sendApplicationData(null, Buffer.from("payload"));
+        await assert.rejects(client.sendApplicationData(null, Buffer.alloc(70000)), /exceeds the maximum/);
+        await sleep(10);
+
+        assert.strictEqual(received.length, 1);
+        const packet = new nw.TCNetApplicationDataPacket();
+        packet.buffer = received[0];
+        packet.header = new nw.TCNetManagementHeader(received[0]);
+        packet.read();
+        assert.strictEqual(packet.totalPackets, 1);
+        assert.strictEqual(packet.packetNo, 1);
+        assert.strictEqual(packet.data.toString(), "payload");
+    } finally {
+        client.disconnect();
+        monitor.close();
+    }
+});
+
+/**
+ * Encodes the fragments of an artwork file as sent by a server
+ * @param content file content
+ * @param totalPackets number of fragments
+ * @returns datagrams of all fragments
+ */
+function fileFragments(content: Buffer, totalPackets: number): Buffer[] {
+    const clusterSize = Math.ceil(content.length / totalPackets);
+    const fragments: Buffer[] = [];
+    for (let n = 0; n < totalPackets; n++) {
+        const packet = new nw.TCNetFilePacket();
+        packet.dataType = nw.TCNetDataPacketType.LowResArtworkFile;
+        packet.layer = 1;
+        packet.dataSize = content.length;
+        packet.totalPackets = totalPackets;
+        packet.packetNo = n + 1;
+        packet.dataClusterSize = clusterSize;
+        packet.content = content.slice(n * clusterSize, (n + 1) * clusterSize);
+        fragments.push(encodePacket(packet, nw.NodeType.Master));
+    }
+    return fragments;
+}
+
+test("multi-part data of a different payload replaces incomplete fragments", () => {
+    const client = new TCNetClient();
+    client.connectOffline();
+    const files: Buffer[] = [];
+    client.on("data", (packet: nw.TCNetFilePacket) => files.push(packet.content));
+
+    const previous = fileFragments(Buffer.from("previous track artwork"), 3);
+    const current = fileFragments(Buffer.from("current artwork"), 2);
+    client.receive("unicast", previous[0], rinfo);
+    client.receive("unicast", previous[1], rinfo);
+    current.forEach((el) => client.receive("unicast", el, rinfo));
+    client.receive("unicast", previous[2], rinfo);
+
+    assert.deepStrictEqual(
+        files.map((el) => el.toString()),
+        ["current artwork"],
+    );
+});
+
+test("incomplete multi-part data expires after the request timeout", async () => {
+    const config = new TCNetConfiguration();
+    config.requestTimeout = 50;
+    const client = new TCNetClient(config);
+    client.connectOffline();
+    const files: Buffer[] = [];
+    client.on("data", (packet: nw.TCNetFilePacket) => files.push(packet.content));
+
+    const stale = fileFragments(Buffer.from("stale artwork"), 2);
+    const fresh = fileFragments(Buffer.from("fresh artwork"), 2);
+    client.receive("unicast", stale[0], rinfo);
+    await sleep(100);
+    client.receive("unicast", fresh[1], rinfo);
+    assert.strictEqual(files.length, 0);
+
+    client.receive("unicast", fresh[0], rinfo);
+    assert.deepStrictEqual(
+        files.map((el) => el.toString()),
+        ["fresh artwork"],
+    );
+});
+
+/**
+ * Encodes a time sync response of a master
+ * @param remoteTimestamp echoed timestamp of the request
+ * @param masterTimestamp time of the master when sending the response
+ * @returns datagram
+ */
+function timeSyncResponse(remoteTimestamp: number, masterTimestamp: number): Buffer {
+    const packet = new nw.TCNetTimeSyncPacket();
+    packet.step = nw.TCNetTimeSyncStep.Response;
+    packet.nodeListenerPort = 65033;
+    packet.remoteTimestamp = wrapTimestamp(remoteTimestamp);
+    const msg = encodePacket(packet, nw.NodeType.Master);
+    msg.writeUInt32LE(wrapTimestamp(masterTimestamp), 20);
+    return msg;
+}
+
+test("time sync uses the sample with the lowest round trip delay", () => {
+    const client = new TCNetClient();
+    client.connectOffline();
+    const events: { offset: number; accuracy: number | null }[] = [];
+    client.on("timesync", (el) => events.push(el));
+    assert.strictEqual(client.timeSyncAccuracy(), null);
+    assert.strictEqual(client.timeOffset(), 0);
+
+    // Master clock is one second ahead, the first response took 10 ms, the second one 2 ms
+    let now = timestamp();
+    client.receive("unicast", timeSyncResponse(now - 10000, now + 1000000 - 5000), rinfo);
+    now = timestamp();
+    client.receive("unicast", timeSyncResponse(now - 2000, now + 1000000 - 1000), rinfo);
+    now = timestamp();
+    client.receive("unicast", timeSyncResponse(now - 20000, now + 2000000), rinfo);
+
+    assert.strictEqual(events.length, 3);
+    assert.ok(Math.abs(client.timeOffset() - 1000000) < 2000, `offset ${client.timeOffset()}`);
+    assert.ok(Math.abs(<number>client.timeSyncAccuracy() - 1000) < 1000, `accuracy ${client.timeSyncAccuracy()}`);
+
+    const network = client.networkTime();
+    assert.ok(Math.abs(wrapTimestamp(network - timestamp()) - 1000000) < 3000);
+    assert.strictEqual(client.localTime(wrapTimestamp(now + client.timeOffset())), now);
+});
+
+test("time sync handles a master clock behind the local clock", () => {
+    const client = new TCNetClient();
+    client.connectOffline();
+
+    const now = timestamp();
+    client.receive("unicast", timeSyncResponse(now - 2000, now - 3000000 - 1000), rinfo);
+    assert.ok(Math.abs(client.timeOffset() + 3000000) < 2000, `offset ${client.timeOffset()}`);
+});
+
+test("client synchronizes its clock with the simulator", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network);
+    const client = new TCNetClient(loopbackConfig(network));
+    try {
+        const synchronized = new Promise<{ offset: number; accuracy: number }>((resolve) =>
+            client.once("timesync", resolve),
+        );
+        await client.connect();
+        const sync = await synchronized;
+
+        // Both nodes share the clock of this process
+        assert.ok(Math.abs(sync.offset) < 50000, `offset ${sync.offset}`);
+        assert.ok(sync.accuracy >= 0 && sync.accuracy < 50000, `accuracy ${sync.accuracy}`);
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
+
+test("control replies are not matched to commands which timed out", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network);
+    const config = loopbackConfig(network);
+    config.timeSyncInterval = 0;
+    const client = new TCNetClient(config);
+    try {
+        await client.connect();
+        config.requestTimeout = 50;
+
+        // The simulator does not answer control commands, replies are injected
+        await assert.rejects(client.sendControl("layer/1/play"), /Timeout/);
+        const next = client.sendControl("layer/1/stop");
+        let settled = false;
+        next.then(
+            () => (settled = true),
+            () => (settled = true),
+        );
+
+        client.receive("unicast", errorDatagram(nw.TCNetMessageType.Control, nw.TCNetErrorCode.OK), rinfo);
+        await sleep(0);
+        assert.strictEqual(settled, false);
+
+        client.receive("unicast", errorDatagram(nw.TCNetMessageType.Control, nw.TCNetErrorCode.EmptyData), rinfo);
+        await assert.rejects(next, nw.TCNetProtocolError);
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
+
+test("disconnecting rejects pending control commands", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network);
+    const config = loopbackConfig(network);
+    config.timeSyncInterval = 0;
+    const client = new TCNetClient(config);
+    try {
+        await client.connect();
+        const pending = client.sendControl("layer/1/play");
+        await sleep(0);
+        client.disconnect();
+        await assert.rejects(pending, /Disconnected/);
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
+
+test("Error packets reject the pending request they answer", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network);
+    simulator.loadTrack(1, {
+        trackID: 7,
+        trackArtist: "Artist",
+        trackTitle: "Title",
+        trackKey: 3,
+        trackLength: 200000,
+        bpm: 128,
+    });
+    const config = loopbackConfig(network);
+    config.timeSyncInterval = 0;
+    const client = new TCNetClient(config);
+    try {
+        await client.connect();
+
+        // Layer 2 is empty, the simulator answers with an Error packet
+        const empty = client.requestData(nw.TCNetDataPacketType.MetaData, 2);
+        const loaded = client.requestData(nw.TCNetDataPacketType.MetaData, 1);
+        await assert.rejects(empty, (err: nw.TCNetProtocolError) => {
+            assert.ok(err instanceof nw.TCNetProtocolError);
+            assert.strictEqual(err.code, nw.TCNetErrorCode.EmptyData);
+            assert.strictEqual(err.dataType, nw.TCNetDataPacketType.MetaData);
+            assert.strictEqual(err.layer, 2);
+            assert.strictEqual(err.messageType, nw.TCNetMessageType.Request);
+            return true;
+        });
+        const metadata = <nw.TCNetDataPacketMetadata>await loaded;
+        assert.strictEqual(metadata.trackID, 7);
+
+        // Errors for other data and OK results do not affect a pending request
+        const pending = client.requestData(nw.TCNetDataPacketType.MetaData, 1);
+        client.receive(
+            "unicast",
+            errorDatagram(nw.TCNetMessageType.Request, nw.TCNetErrorCode.EmptyData, nw.TCNetDataPacketType.CUEData, 1),
+            rinfo,
+        );
+        client.receive(
+            "unicast",
+            errorDatagram(nw.TCNetMessageType.Request, nw.TCNetErrorCode.OK, nw.TCNetDataPacketType.MetaData, 1),
+            rinfo,
+        );
+        assert.strictEqual((<nw.TCNetDataPacketMetadata>await pending).trackID, 7);
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
+
+const TRACK = {
+    trackID: 7,
+    trackArtist: "Artist",
+    trackTitle: "Title",
+    trackKey: 3,
+    trackLength: 200000,
+    bpm: 128,
+};
+
+/**
+ * Creates a client on a loopback network which notices lost masters quickly
+ * @param network network to attach to
+ * @returns client and list of state changes
+ */
+function reconnectingClient(network: TCNetLoopbackNetwork): { client: TCNetClient; states: TCNetConnectionState[] } {
+    const config = loopbackConfig(network);
+    config.timeSyncInterval = 0;
+    config.nodeTimeout = 300;
+    config.reconnectDelay = 50;
+    config.reconnectMaxDelay = 200;
+    const client = new TCNetClient(config);
+    const states: TCNetConnectionState[] = [];
+    client.on("statechange", (state: TCNetConnectionState) => states.push(state));
+    return { client, states };
+}
+
+/**
+ * Waits until a client reached a state
+ * @param client client
+ * @param state expected state
+ * @param timeout maximum time to wait in milliseconds
+ */
+async function waitState(client: TCNetClient, state: TCNetConnectionState, timeout = 3000): Promise<void> {
+    const start = Date.now();
+    while (client.connectionState() !== state) {
+        assert.ok(Date.now() - start < timeout, `state ${client.connectionState()} instead of ${state}`);
+        await sleep(10);
+    }
+}
+
+test("client reconnects to a new master after the master opted out", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const first = await startSimulator(network, "10.0.0.1");
+    first.loadTrack(1, TRACK);
+    const { client, states } = reconnectingClient(network);
+    let second = null;
+    try {
+        await client.connect();
+        assert.strictEqual(
+            (<nw.TCNetDataPacketMetadata>await client.requestData(nw.TCNetDataPacketType.MetaData, 1)).trackID,
+            7,
+        );
+
+        await first.stop();
+        await waitState(client, TCNetConnectionState.Reconnecting);
+
+        second = await startSimulator(network, "10.0.0.3");
+        second.loadTrack(1, { ...TRACK, trackID: 8 });
+        await waitState(client, TCNetConnectionState.Connected);
+
+        assert.deepStrictEqual(states, [
+            TCNetConnectionState.Discovering,
+            TCNetConnectionState.Connected,
+            TCNetConnectionState.Reconnecting,
+            TCNetConnectionState.Connected,
+        ]);
+        assert.strictEqual(
+            (<nw.TCNetDataPacketMetadata>await client.requestData(nw.TCNetDataPacketType.MetaData, 1)).trackID,
+            8,
+        );
+    } finally {
+        client.disconnect();
+        await second?.stop();
+    }
+    assert.strictEqual(states[states.length - 1], TCNetConnectionState.Disconnected);
+});
+
+test("client backs off and fails over when the master goes silent", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const firstConfig = new TCNetSimulatorConfiguration();
+    const firstTransport = new TCNetLoopbackTransport(network, "10.0.0.1");
+    firstConfig.transport = firstTransport;
+    const first = new TCNetSimulator(firstConfig);
+    await first.start();
+    const { client, states } = reconnectingClient(network);
+    let second = null;
+
+    let announcements = 0;
+    const monitor = new TCNetLoopbackTransport(network, "10.0.0.9");
+    await monitor.open(
+        { broadcastAddresses: [], unicastPort: 65000, receiveTimestamp: false },
+        (_socket, msg, from) => {
+            if (from.address === "10.0.0.2" && msg.readUInt8(7) === nw.TCNetMessageType.OptIn) {
+                announcements++;
+            }
+        },
+    );
+    try {
+        await client.connect();
+
+        // The master disappears without opting out and is removed from the registry after the node timeout
+        firstTransport.close();
+        await waitState(client, TCNetConnectionState.Reconnecting);
+
+        // Announcements follow the backoff (50, 100, 200, 200 ms) instead of the one second interval
+        announcements = 0;
+        await sleep(600);
+        assert.ok(announcements >= 2 && announcements <= 5, `${announcements} announcements`);
+        assert.strictEqual(client.connectionState(), TCNetConnectionState.Reconnecting);
+
+        second = await startSimulator(network, "10.0.0.3");
+        second.loadTrack(1, TRACK);
+        await waitState(client, TCNetConnectionState.Connected);
+        assert.deepStrictEqual(states, [
+            TCNetConnectionState.Discovering,
+            TCNetConnectionState.Connected,
+            TCNetConnectionState.Reconnecting,
+            TCNetConnectionState.Connected,
+        ]);
+        assert.strictEqual(
+            (<nw.TCNetDataPacketMetadata>await client.requestData(nw.TCNetDataPacketType.MetaData, 1)).trackID,
+            7,
+        );
+    } finally {
+        client.disconnect();
+        monitor.close();
+        await first.stop().catch(() => undefined);
+        await second?.stop();
+    }
+});
+
+/**
+ * Transport which fails to send after a number of datagrams
+ */
+class FailingTransport implements TCNetTransport {
+    sent = 0;
+    opened = false;
+    private limit: number;
+
+    /**
+     *
+     * @param limit number of datagrams sent successfully
+     */
+    constructor(limit: number) {
+        this.limit = limit;
+    }
+
+    async open(_options: TCNetTransportOptions, _receiver: TCNetReceiver): Promise<void> {
+        this.opened = true;
+    }
+
+    async send(_socket: TCNetSocketType, _msg: Buffer, _port: number, _address: string): Promise<void> {
+        if (++this.sent > this.limit) {
+            throw new Error("Network is unreachable");
+        }
+    }
+
+    close(): void {
+        this.opened = false;
+    }
+}
+
+test("failing to connect closes the transport", async () => {
+    const config = new TCNetConfiguration();
+    config.requestTimeout = 50;
+    config.connectRetries = 2;
+    config.reconnectDelay = 10;
+    // The initial announcement succeeds, the announcement of the first retry fails
+    const transport = new FailingTransport(1);
+    config.transport = transport;
+    const client = new TCNetClient(config);
+    const states: TCNetConnectionState[] = [];
+    client.on("statechange", (state: TCNetConnectionState) => states.push(state));
+
+    await assert.rejects(client.connect(), /Network is unreachable/);
+    assert.strictEqual(transport.opened, false);
+    assert.strictEqual(client.connectionState(), TCNetConnectionState.Disconnected);
+    assert.deepStrictEqual(states, [TCNetConnectionState.Discovering, TCNetConnectionState.Disconnected]);
+
+    // No announcements are sent after the failure
+    const sent = transport.sent;
+    await sleep(1100);
+    assert.strictEqual(transport.sent, sent);
+});
+
+/**
+ * Loopback transport recording the addresses broadcast packets are sent to
+ */
+class RecordingTransport extends TCNetLoopbackTransport {
+    broadcasts: string[] = [];
+
+    async send(socket: TCNetSocketType, msg: Buffer, port: number, address: string): Promise<void> {
+        if (socket === "broadcast") {
+            this.broadcasts.push(address);
+        }
+        await super.send(socket, msg, port, address);
+    }
+}
+
+/**
+ * Name of the loopback interface of this host
+ * @returns interface name
+ */
+function loopbackInterface(): string {
+    const intf = listInterfaces(true).find((el) => el.address === "127.0.0.1");
+    assert.ok(intf, "no loopback interface");
+    return intf.name;
+}
+
+test("client works with the loopback interface as broadcast interface", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network, "127.0.0.10");
+    const config = new TCNetConfiguration();
+    config.broadcastInterface = loopbackInterface();
+    const transport = new RecordingTransport(network, "127.0.0.2");
+    config.transport = transport;
+    const client = new TCNetClient(config);
+    try {
+        assert.strictEqual(client.masterInterface(), null);
+        await client.connect();
+
+        assert.deepStrictEqual(
+            client.interfaces().map((el) => el.name),
+            [config.broadcastInterface],
+        );
+        assert.strictEqual(client.masterInterface()?.name, config.broadcastInterface);
+        assert.ok(transport.broadcasts.length > 0);
+        assert.ok(transport.broadcasts.every((el) => el === config.broadcastAddress));
+
+        const master = client
+            .nodes()
+            .nodes()
+            .find((el) => el.address === "127.0.0.10");
+        assert.ok(master);
+        assert.strictEqual(master.interface, config.broadcastInterface);
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
+
+test("client only broadcasts on the network of the master once it was found", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulator = await startSimulator(network, "127.0.0.10");
+    const config = new TCNetConfiguration();
+    const loopback = loopbackInterface();
+    config.broadcastInterfaces = [loopback, ...listInterfaces().map((el) => el.name)];
+    const transport = new RecordingTransport(network, "127.0.0.2");
+    config.transport = transport;
+    const client = new TCNetClient(config);
+    try {
+        await client.connect();
+
+        // The first announcement is sent before the master was found
+        const all = [...new Set(client.interfaces().map(interfaceBindAddress))];
+        assert.deepStrictEqual(transport.broadcasts.slice(0, all.length).sort(), all.sort());
+
+        const masterInterface = client.masterInterface();
+        assert.ok(masterInterface);
+        assert.strictEqual(masterInterface.name, loopback);
+
+        transport.broadcasts = [];
+        await client.broadcastPacket(optInPacket(config.unicastPort));
+        assert.deepStrictEqual(transport.broadcasts, [interfaceBindAddress(masterInterface)]);
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
+
+test("client rejects broadcast interfaces which do not exist", async () => {
+    const config = loopbackConfig(new TCNetLoopbackNetwork());
+    config.broadcastInterfaces = ["tcnet-missing0"];
+    const client = new TCNetClient(config);
+
+    await assert.rejects(client.listen(), /Interface tcnet-missing0 does not exist/);
+    client.disconnect();
+});
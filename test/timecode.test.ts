@@ -0,0 +1,77 @@
+import * as assert from "assert";
+import {
+    LTCEncoder,
+    TimecodeFrameRate,
+    mtcFullFrame,
+    mtcQuarterFrame,
+    timeFromTimecode,
+    timecodeFromFrame,
+    timecodeFromTime,
+} from "../src/timecode";
+import { test } from "./harness";
+
+test("timecode is converted from and to time", () => {
+    assert.deepStrictEqual(timecodeFromTime(3723500, TimecodeFrameRate.FPS25), {
+        hours: 1,
+        minutes: 2,
+        seconds: 3,
+        frames: 12,
+    });
+    assert.deepStrictEqual(timecodeFromTime(-100, TimecodeFrameRate.FPS30), {
+        hours: 0,
+        minutes: 0,
+        seconds: 0,
+        frames: 0,
+    });
+    assert.strictEqual(
+        timeFromTimecode({ hours: 1, minutes: 2, seconds: 3, frames: 12 }, TimecodeFrameRate.FPS25),
+        3723480,
+    );
+    assert.strictEqual(timecodeFromFrame(24 * 3600 * 24, TimecodeFrameRate.FPS24).hours, 0);
+});
+
+test("drop frame timecode skips frame numbers", () => {
+    const rate = TimecodeFrameRate.FPS2997DF;
+    assert.deepStrictEqual(timecodeFromFrame(1799, rate), { hours: 0, minutes: 0, seconds: 59, frames: 29 });
+    assert.deepStrictEqual(timecodeFromFrame(1800, rate), { hours: 0, minutes: 1, seconds: 0, frames: 2 });
+    assert.deepStrictEqual(timecodeFromFrame(17982, rate), { hours: 0, minutes: 10, seconds: 0, frames: 0 });
+
+    for (const frame of [0, 1799, 1800, 17981, 17982, 100000]) {
+        const timecode = timecodeFromFrame(frame, rate);
+        assert.deepStrictEqual(timecodeFromTime(timeFromTimecode(timecode, rate) + 1, rate), timecode);
+    }
+});
+
+test("MTC messages encode the timecode", () => {
+    const timecode = { hours: 1, minutes: 2, seconds: 3, frames: 20 };
+    assert.deepStrictEqual(
+        [...mtcFullFrame(timecode, TimecodeFrameRate.FPS30)],
+        [0xf0, 0x7f, 0x7f, 0x01, 0x01, 0x61, 2, 3, 20, 0xf7],
+    );
+
+    const pieces = [0, 1, 2, 3, 4, 5, 6, 7].map((el) => mtcQuarterFrame(timecode, TimecodeFrameRate.FPS25, el));
+    assert.deepStrictEqual(
+        pieces.map((el) => el[1]),
+        [0x04, 0x11, 0x23, 0x30, 0x42, 0x50, 0x61, 0x72],
+    );
+    assert.ok(pieces.every((el) => el[0] === 0xf1));
+});
+
+test("LTC frames continue the signal of the previous frame", () => {
+    const encoder = new LTCEncoder(TimecodeFrameRate.FPS25, 48000);
+    const first = encoder.encode({ hours: 0, minutes: 0, seconds: 0, frames: 0 });
+    const second = encoder.encode({ hours: 0, minutes: 0, seconds: 0, frames: 1 });
+    assert.strictEqual(first.length, 1920 * 2);
+    assert.strictEqual(second.length, 1920 * 2);
+
+    // Every frame starts with a transition and has an even number of transitions
+    assert.notStrictEqual(Math.sign(second.readInt16LE(0)), Math.sign(first.readInt16LE(first.length - 2)));
+    assert.strictEqual(Math.sign(second.readInt16LE(0)), Math.sign(first.readInt16LE(0)));
+
+    const dropFrame = new LTCEncoder(TimecodeFrameRate.FPS2997DF, 48000);
+    let samples = 0;
+    for (let n = 0; n < 5; n++) {
+        samples += dropFrame.encode(timecodeFromFrame(n, TimecodeFrameRate.FPS2997DF)).length / 2;
+    }
+    assert.strictEqual(samples, 8008);
+});
@@ -0,0 +1,110 @@
+import * as assert from "assert";
+import { RemoteInfo } from "dgram";
+import {
+    TCNetLoopbackNetwork,
+    TCNetLoopbackTransport,
+    TCNetSocketType,
+    TCNET_BROADCAST_PORT,
+    TCNET_TIMESTAMP_PORT,
+} from "../src/transport";
+import { TCNetConfiguration } from "../src/tcnet";
+import { PioneerDJTCClient } from "../src/pioneer";
+import { TCNetSimulator, TCNetSimulatorConfiguration } from "../src/simulator";
+import { sleep, test } from "./harness";
+
+type Received = { name: string; socket: TCNetSocketType; data: string; rinfo: RemoteInfo };
+
+/**
+ * Opens a loopback transport which records received datagrams
+ * @param network network to attach to
+ * @param address address of the transport
+ * @param received list of received datagrams
+ * @param receiveTimestamp whether the transport receives on the timestamp port
+ * @returns opened transport
+ */
+async function open(
+    network: TCNetLoopbackNetwork,
+    address: string,
+    received: Received[],
+    receiveTimestamp = false,
+): Promise<TCNetLoopbackTransport> {
+    const transport = new TCNetLoopbackTransport(network, address);
+    await transport.open({ broadcastAddresses: [], unicastPort: 65000, receiveTimestamp }, (socket, msg, rinfo) => {
+        received.push({ name: address, socket, data: msg.toString(), rinfo });
+    });
+    return transport;
+}
+
+test("loopback network delivers broadcasts and unicasts", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const received: Received[] = [];
+    const a = await open(network, "10.0.0.1", received);
+    const b = await open(network, "10.0.0.2", received, true);
+
+    await a.send("broadcast", Buffer.from("hello"), TCNET_BROADCAST_PORT, "255.255.255.255");
+    await sleep(10);
+    assert.deepStrictEqual(
+        received.map((el) => [el.name, el.socket, el.data]),
+        [
+            ["10.0.0.1", "broadcast", "hello"],
+            ["10.0.0.2", "broadcast", "hello"],
+        ],
+    );
+    assert.strictEqual(received[1].rinfo.address, "10.0.0.1");
+    assert.strictEqual(received[1].rinfo.port, TCNET_BROADCAST_PORT);
+
+    received.length = 0;
+    await a.send("unicast", Buffer.from("direct"), 65000, "10.0.0.2");
+    await a.send("timestamp", Buffer.from("time"), TCNET_TIMESTAMP_PORT, "255.255.255.255");
+    await a.send("unicast", Buffer.from("closed"), 64000, "10.0.0.2");
+    await sleep(10);
+    assert.deepStrictEqual(
+        received.map((el) => [el.name, el.socket, el.data]),
+        [
+            ["10.0.0.2", "unicast", "direct"],
+            ["10.0.0.2", "timestamp", "time"],
+        ],
+    );
+    assert.strictEqual(received[0].rinfo.port, 65000);
+
+    b.close();
+    received.length = 0;
+    await a.send("broadcast", Buffer.from("bye"), TCNET_BROADCAST_PORT, "255.255.255.255");
+    await sleep(10);
+    assert.deepStrictEqual(
+        received.map((el) => el.name),
+        ["10.0.0.1"],
+    );
+    await assert.rejects(b.send("broadcast", Buffer.from("closed"), TCNET_BROADCAST_PORT, "255.255.255.255"));
+    a.close();
+});
+
+test("client talks to the simulator over a loopback network", async () => {
+    const network = new TCNetLoopbackNetwork();
+    const simulatorConfig = new TCNetSimulatorConfiguration();
+    simulatorConfig.transport = new TCNetLoopbackTransport(network, "10.0.0.1");
+    const simulator = new TCNetSimulator(simulatorConfig);
+    await simulator.start();
+    simulator.loadTrack(1, {
+        trackID: 7,
+        trackArtist: "Artist",
+        trackTitle: "Title",
+        trackKey: 3,
+        trackLength: 200000,
+        bpm: 128,
+    });
+
+    const config = new TCNetConfiguration();
+    config.transport = new TCNetLoopbackTransport(network, "10.0.0.2");
+    const client = new PioneerDJTCClient(config);
+    try {
+        await client.connect();
+        const info = await client.trackInfo(1);
+        assert.strictEqual(info.trackID, 7);
+        assert.strictEqual(info.trackTitle, "Title");
+        assert.strictEqual(info.trackArtist, "Artist");
+    } finally {
+        client.disconnect();
+        await simulator.stop();
+    }
+});
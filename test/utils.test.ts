@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import { networkInterfaces } from "os";
+import { TCNetInterface, findInterface, listInterfaces } from "../src/utils";
+import { test } from "./harness";
+
+const interfaces: TCNetInterface[] = [
+    { name: "eth0", address: "192.168.1.10", netmask: "255.255.255.0", broadcastAddress: "192.168.1.255" },
+    { name: "eth1", address: "10.0.0.2", netmask: "255.0.0.0", broadcastAddress: "10.255.255.255" },
+];
+
+test("findInterface finds the interface on the subnet of an address", () => {
+    assert.strictEqual(findInterface("192.168.1.200", interfaces)?.name, "eth0");
+    assert.strictEqual(findInterface("10.20.30.40", interfaces)?.name, "eth1");
+    assert.strictEqual(findInterface("192.168.2.1", interfaces), null);
+    assert.strictEqual(findInterface("10.0.0.1", []), null);
+});
+
+test("listInterfaces lists internal interfaces only on request", () => {
+    const internal = Object.entries(networkInterfaces())
+        .filter(([, addresses]) => (addresses || []).some((el) => el.family === "IPv4" && el.internal))
+        .map(([name]) => name);
+
+    assert.ok(listInterfaces().every((el) => !internal.includes(el.name)));
+    for (const name of internal) {
+        assert.ok(
+            listInterfaces(true).some((el) => el.name === name),
+            name,
+        );
+    }
+
+    const loopback = listInterfaces(true).find((el) => el.address === "127.0.0.1");
+    if (loopback) {
+        assert.strictEqual(loopback.netmask, "255.0.0.0");
+        assert.strictEqual(loopback.broadcastAddress, "127.255.255.255");
+    }
+});